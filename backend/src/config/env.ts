@@ -11,6 +11,11 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value;
 }
 
+// Empty when not set
+function getOptionalEnvVar(key: string): string {
+  return process.env[key] || "";
+}
+
 function getEnvVarNumber(key: string, defaultValue: number): number {
   const value = process.env[key];
   return value ? parseInt(value, 10) : defaultValue;
@@ -30,6 +35,10 @@ export const config: EnvironmentConfig = {
   ),
   dockerHost: getEnvVar("DOCKER_HOST", "unix:///var/run/docker.sock"),
   baseDomain: getEnvVar("BASE_DOMAIN", "preview.local"),
+  apiDomain: getEnvVar(
+    "API_DOMAIN",
+    `api.${getEnvVar("BASE_DOMAIN", "preview.local")}`
+  ),
   wildcardSsl: getEnvVarBoolean("WILDCARD_SSL", false),
   githubWebhookSecret: getEnvVar("GITHUB_WEBHOOK_SECRET", ""),
   jwtSecret: getEnvVar("JWT_SECRET", "dev-secret-change-in-production"),
@@ -37,9 +46,23 @@ export const config: EnvironmentConfig = {
     "API_TOKEN_SECRET",
     "dev-api-secret-change-in-production"
   ),
+  encryptionKey: getEnvVar(
+    "ENCRYPTION_KEY",
+    "dev-encryption-key-change-in-production"
+  ),
   maxPreviews: getEnvVarNumber("MAX_PREVIEWS", 20),
   idleTimeoutHours: getEnvVarNumber("IDLE_TIMEOUT_HOURS", 48),
   cleanupIntervalMinutes: getEnvVarNumber("CLEANUP_INTERVAL_MINUTES", 30),
+  idleAction: getEnvVar("IDLE_ACTION", "destroy"),
+  scaleToZeroIdleMinutes: getEnvVarNumber("SCALE_TO_ZERO_IDLE_MINUTES", 0),
+  cronJobTimeoutSeconds: getEnvVarNumber("CRON_JOB_TIMEOUT_SECONDS", 3600),
+  jobPollIntervalSeconds: getEnvVarNumber("JOB_POLL_INTERVAL_SECONDS", 5),
+  jobMaxAttempts: getEnvVarNumber("JOB_MAX_ATTEMPTS", 3),
+  jobConcurrency: getEnvVarNumber("JOB_CONCURRENCY", 2),
+  previewLockLeaseSeconds: getEnvVarNumber("PREVIEW_LOCK_LEASE_SECONDS", 120),
+  previewLockWaitSeconds: getEnvVarNumber("PREVIEW_LOCK_WAIT_SECONDS", 300),
+  defaultUpdateStrategy: getEnvVar("DEFAULT_UPDATE_STRATEGY", "recreate"),
+  previewRevisionHistory: getEnvVarNumber("PREVIEW_REVISION_HISTORY", 10),
   postgresHost: getEnvVar("POSTGRES_HOST", "localhost"),
   postgresPort: getEnvVarNumber("POSTGRES_PORT", 5432),
   postgresAdminUser: getEnvVar("POSTGRES_ADMIN_USER", "postgres"),
@@ -52,8 +75,34 @@ export const config: EnvironmentConfig = {
   mongodbPort: getEnvVarNumber("MONGODB_PORT", 27017),
   mongodbAdminUser: getEnvVar("MONGODB_ADMIN_USER", "admin"),
   mongodbAdminPassword: getEnvVar("MONGODB_ADMIN_PASSWORD", "admin"),
+  redisHost: getEnvVar("REDIS_HOST", "localhost"),
+  redisPort: getEnvVarNumber("REDIS_PORT", 6379),
+  redisAdminUser: getEnvVar("REDIS_ADMIN_USER", "default"),
+  redisAdminPassword: getOptionalEnvVar("REDIS_ADMIN_PASSWORD"),
+  sqliteDataDir: getEnvVar("SQLITE_DATA_DIR", "./sqlite"),
+  sqliteHostDataDir: getOptionalEnvVar("SQLITE_HOST_DATA_DIR"),
+  databaseSnapshotDir: getEnvVar("DATABASE_SNAPSHOT_DIR", "./snapshots"),
+  dedicatedDatabaseNetwork: getEnvVar(
+    "DEDICATED_DATABASE_NETWORK",
+    "previewcloud"
+  ),
+  migrationTimeoutSeconds: getEnvVarNumber("MIGRATION_TIMEOUT_SECONDS", 600),
+  databaseQueryMaxRows: getEnvVarNumber("DATABASE_QUERY_MAX_ROWS", 100),
+  databaseQueryTimeoutSeconds: getEnvVarNumber(
+    "DATABASE_QUERY_TIMEOUT_SECONDS",
+    10
+  ),
+  databaseQuotaGraceMinutes: getEnvVarNumber(
+    "DATABASE_QUOTA_GRACE_MINUTES",
+    60
+  ),
   traefikNetwork: getEnvVar("TRAEFIK_NETWORK", "traefik-proxy"),
   traefikApiUrl: getEnvVar("TRAEFIK_API_URL", "http://localhost:8080"),
+  accessTrackingUrl: getOptionalEnvVar("ACCESS_TRACKING_URL"),
+  accessFlushIntervalSeconds: getEnvVarNumber(
+    "ACCESS_FLUSH_INTERVAL_SECONDS",
+    30
+  ),
   previewPasswordProtected: getEnvVarBoolean(
     "PREVIEW_PASSWORD_PROTECTED",
     false
@@ -0,0 +1,374 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { SNAPSHOT_NAME_PATTERN } from "../services/database/tools";
+import { PreviewService } from "../services/preview.service";
+import { DatabaseQuery } from "../types/database.types";
+import { DatabaseType, PreviewStatus } from "../types/preview.types";
+import { logger } from "../utils/logger";
+import { getPreviewFromParams } from "./preview.controller";
+
+const previewService = new PreviewService();
+
+// Helper function to validate a console query for a database type
+function parseQuery(type: DatabaseType, body: any): DatabaseQuery {
+  const { sql, collection, filter, pipeline, pattern, limit } = body || {};
+
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || (limit as number) < 1)
+  ) {
+    throw new AppError("limit must be a positive integer", 400);
+  }
+
+  if (type === DatabaseType.REDIS) {
+    if (pattern !== undefined && (typeof pattern !== "string" || !pattern)) {
+      throw new AppError("pattern must be a non-empty string", 400);
+    }
+    return { pattern, limit };
+  }
+
+  if (type !== DatabaseType.MONGODB) {
+    if (typeof sql !== "string" || !sql.trim()) {
+      throw new AppError(`${type} queries need sql`, 400);
+    }
+    return { sql, limit };
+  }
+
+  if (typeof collection !== "string" || !collection) {
+    throw new AppError("MongoDB queries need a collection", 400);
+  }
+  if (filter !== undefined && pipeline !== undefined) {
+    throw new AppError("Pass either filter or pipeline, not both", 400);
+  }
+  if (
+    filter !== undefined &&
+    (typeof filter !== "object" || filter === null || Array.isArray(filter))
+  ) {
+    throw new AppError("filter must be an object", 400);
+  }
+  if (
+    pipeline !== undefined &&
+    (!Array.isArray(pipeline) ||
+      pipeline.some((stage) => typeof stage !== "object" || stage === null))
+  ) {
+    throw new AppError("pipeline must be an array of stages", 400);
+  }
+  return { collection, filter, pipeline, limit };
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/snapshot:
+ *   post:
+ *     summary: Save a preview's database as a named snapshot
+ *     description: Dumps the database of a running preview into the owner's folder of the snapshot directory on the server. The owner's new previews start from it with database.cloneFrom. Each user has their own snapshots; the owner's snapshot with the same name is replaced.
+ *     tags: [Databases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Snapshot name (letters, digits, ".", "_" and "-")
+ *                 example: staging-sanitized
+ *     responses:
+ *       201:
+ *         description: Snapshot created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       enum: [postgres, mysql, mongodb, redis, sqlite]
+ *       400:
+ *         description: Invalid snapshot name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Preview not found or not owned by the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Preview has no database or is not running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function createSnapshot(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const { name } = req.body;
+    if (typeof name !== "string" || !SNAPSHOT_NAME_PATTERN.test(name)) {
+      throw new AppError(
+        "name must contain only letters, digits, '.', '_' and '-'",
+        400
+      );
+    }
+
+    const preview = await getPreviewFromParams(req);
+    if (!preview.database) {
+      throw new AppError("Preview has no database", 409);
+    }
+    if (preview.status !== PreviewStatus.RUNNING) {
+      throw new AppError(
+        `Preview is ${preview.status}; only running previews can be snapshotted`,
+        409
+      );
+    }
+
+    await previewService.snapshotDatabase(preview.previewId, name);
+
+    res.status(201).json({
+      success: true,
+      data: { name, type: preview.database.type },
+    });
+  } catch (error) {
+    logger.error("Failed to create database snapshot:", error);
+    throw error;
+  }
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/schema-diff:
+ *   get:
+ *     summary: Compare a preview's database schema with its base branch
+ *     description: Introspects the tables, columns and indexes (collection indexes in MongoDB) of a running preview's database and diffs them against the schema baseline of the base branch. Baselines are captured whenever a branch preview deploys, and kept after it is destroyed. The response includes a Markdown summary for PR comments.
+ *     tags: [Databases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *       - in: query
+ *         name: base
+ *         schema:
+ *           type: string
+ *         description: Branch to compare with (default: the branch the PR targets)
+ *         example: main
+ *     responses:
+ *       200:
+ *         description: Schema changes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/SchemaDiff'
+ *       400:
+ *         description: No base branch known for the preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Preview not found or not owned by the user, or no schema baseline for the base branch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Preview has no database or is not running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function getSchemaDiff(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const preview = await getPreviewFromParams(req);
+    if (!preview.database) {
+      throw new AppError("Preview has no database", 409);
+    }
+    if (preview.status !== PreviewStatus.RUNNING) {
+      throw new AppError(
+        `Preview is ${preview.status}; only running previews can be compared`,
+        409
+      );
+    }
+
+    const baseBranch =
+      typeof req.query.base === "string" && req.query.base
+        ? req.query.base
+        : preview.baseBranch;
+    if (!baseBranch) {
+      throw new AppError(
+        "Base branch of the preview is unknown; pass it as ?base=<branch>",
+        400
+      );
+    }
+
+    const report = await previewService.getSchemaDiff(
+      preview.previewId,
+      baseBranch
+    );
+    if (!report) {
+      throw new AppError(
+        `No schema baseline for branch ${baseBranch}; deploy a preview of it first`,
+        404
+      );
+    }
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error("Failed to diff database schema:", error);
+    throw error;
+  }
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/query:
+ *   post:
+ *     summary: Run a read-only query against a preview's database
+ *     description: Runs a SQL query (PostgreSQL, MySQL, SQLite), a MongoDB find or aggregation, or a Redis key scan in a read-only session, as the preview's own database user. Results are limited to DATABASE_QUERY_MAX_ROWS rows and DATABASE_QUERY_TIMEOUT_SECONDS. Only the preview owner may query, and every query is recorded in the preview's audit log.
+ *     tags: [Databases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               sql:
+ *                 type: string
+ *                 description: SELECT query (PostgreSQL, MySQL, SQLite)
+ *                 example: SELECT id, email FROM users ORDER BY id DESC
+ *               collection:
+ *                 type: string
+ *                 description: Collection to query (MongoDB)
+ *                 example: users
+ *               filter:
+ *                 type: object
+ *                 description: find filter (MongoDB)
+ *                 example: { "emailVerified": false }
+ *               pipeline:
+ *                 type: array
+ *                 description: Aggregation pipeline without $out or $merge (MongoDB)
+ *                 items:
+ *                   type: object
+ *               pattern:
+ *                 type: string
+ *                 description: Key pattern without the database's key prefix, default * (Redis). Rows hold each key's type, TTL and value.
+ *                 example: session:*
+ *               limit:
+ *                 type: integer
+ *                 description: Maximum rows to return, capped by the server
+ *                 example: 50
+ *     responses:
+ *       200:
+ *         description: Query result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/DatabaseQueryResult'
+ *       400:
+ *         description: Invalid query, a write, or a timeout
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Preview not found or not owned by the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Preview has no database or is not running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function queryDatabase(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const user = (req as AuthRequest).user!;
+    const preview = await getPreviewFromParams(req);
+    if (!preview.database) {
+      throw new AppError("Preview has no database", 409);
+    }
+    if (preview.status !== PreviewStatus.RUNNING) {
+      throw new AppError(
+        `Preview is ${preview.status}; only running previews can be queried`,
+        409
+      );
+    }
+
+    const query = parseQuery(preview.database.type, req.body);
+    const result = await previewService.queryDatabase(
+      preview.previewId,
+      user,
+      query
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error("Failed to query preview database:", error);
+    throw error;
+  }
+}
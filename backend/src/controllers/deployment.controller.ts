@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import { AppError } from "../middleware/errorHandler";
+import { DeploymentService } from "../services/deployment.service";
+import { logger } from "../utils/logger";
+import { getPreviewFromParams } from "./preview.controller";
+
+const deploymentService = new DeploymentService();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+// Helper function to parse a non-negative integer query parameter
+function parseQueryInteger(
+  value: unknown,
+  name: string,
+  defaultValue: number
+): number {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new AppError(`${name} must be a non-negative integer`, 400);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/deployments:
+ *   get:
+ *     summary: Get deployment history for a preview
+ *     description: Lists every create, update, rollback and destroy of a preview, newest first, with step durations, outcome and trigger
+ *     tags: [Deployments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *         description: Number of deployments to return
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *         description: Number of deployments to skip
+ *     responses:
+ *       200:
+ *         description: Deployments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Deployment'
+ *                 count:
+ *                   type: integer
+ *                 total:
+ *                   type: integer
+ *       400:
+ *         description: Invalid limit or offset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Preview not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function getDeployments(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const limit = parseQueryInteger(req.query.limit, "limit", DEFAULT_LIMIT);
+    const offset = parseQueryInteger(req.query.offset, "offset", 0);
+    // Mongoose reads a limit of 0 as no limit
+    if (limit < 1 || limit > MAX_LIMIT) {
+      throw new AppError(`limit must be between 1 and ${MAX_LIMIT}`, 400);
+    }
+
+    const preview = await getPreviewFromParams(req);
+
+    const [deployments, total] = await Promise.all([
+      deploymentService.listDeployments(preview.previewId, { limit, offset }),
+      deploymentService.countDeployments(preview.previewId),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: deployments.map((d) =>
+        deploymentService.formatDeploymentDetails(d)
+      ),
+      count: deployments.length,
+      total,
+    });
+  } catch (error) {
+    logger.error("Failed to get deployments:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { IJob } from "../models/Job.model";
+import { JobService } from "../services/job.service";
+import { logger } from "../utils/logger";
+
+const jobService = new JobService();
+
+// Helper function to load a job owned by the authenticated user
+async function getOwnedJob(req: Request): Promise<IJob> {
+  const user = (req as AuthRequest).user;
+  if (!user) {
+    throw new AppError("Authentication required", 401);
+  }
+
+  const job = await jobService.getJob(req.params.jobId);
+  if (!job || !job.userId.equals(user._id as any)) {
+    throw new AppError("Job not found", 404);
+  }
+
+  return job;
+}
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}:
+ *   get:
+ *     summary: Get deployment job status
+ *     description: Retrieve the status of a queued or running deployment job
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID returned by POST /api/previews
+ *     responses:
+ *       200:
+ *         description: Job details retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       404:
+ *         description: Job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function getJob(req: Request, res: Response): Promise<void> {
+  try {
+    const job = await getOwnedJob(req);
+
+    res.status(200).json({
+      success: true,
+      data: jobService.formatJobDetails(job),
+    });
+  } catch (error) {
+    logger.error("Failed to get job:", error);
+    throw error;
+  }
+}
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a deployment job
+ *     description: Cancels a queued job immediately. A running deployment stops before its next step and is not retried.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       404:
+ *         description: Job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function cancelJob(req: Request, res: Response): Promise<void> {
+  try {
+    const job = await getOwnedJob(req);
+    const cancelled = await jobService.cancelJob(job._id.toString());
+
+    res.status(200).json({
+      success: true,
+      data: jobService.formatJobDetails(cancelled || job),
+    });
+  } catch (error) {
+    logger.error("Failed to cancel job:", error);
+    throw error;
+  }
+}
@@ -24,7 +24,7 @@ const logsService = new LogsService();
  *         name: type
  *         schema:
  *           type: string
- *           enum: [build, deploy, container, database, system]
+ *           enum: [build, deploy, container, database, system, audit]
  *         description: Filter by log type
  *       - in: query
  *         name: limit
@@ -1,13 +1,42 @@
 import { Request, Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import { AppError } from "../middleware/errorHandler";
+import { SNAPSHOT_NAME_PATTERN } from "../services/database/tools";
+import { JobService } from "../services/job.service";
+import { LockUnavailableError } from "../services/lock.service";
 import { PreviewService } from "../services/preview.service";
 import { ResourceLimitService } from "../services/resource-limit.service";
-import { PreviewConfig, PreviewStatus } from "../types/preview.types";
+import { DeploymentTrigger, TriggerType } from "../types/deployment.types";
+import { AddonType } from "../types/addon.types";
+import { JobType } from "../types/job.types";
+import {
+  DatabaseConfig,
+  DatabaseMode,
+  DatabaseType,
+  DependencyCondition,
+  HealthCheckConfig,
+  MigrationsConfig,
+  PreviewConfig,
+  PreviewDetails,
+  PreviewStatus,
+  ServiceConfig,
+  ServiceKind,
+} from "../types/preview.types";
+import {
+  DATABASE_KEY_PATTERN,
+  generatePreviewId,
+  getServiceDependencies,
+  getServiceKind,
+  isServiceExposed,
+  isValidCronSchedule,
+  orderServicesByDependencies,
+  parseServiceVolume,
+} from "../utils/helpers";
 import { logger } from "../utils/logger";
 
 const previewService = new PreviewService();
 const resourceLimitService = new ResourceLimitService();
+const jobService = new JobService();
 
 // Helper function to get authenticated user
 function getAuthenticatedUser(req: Request): any {
@@ -15,12 +44,273 @@ function getAuthenticatedUser(req: Request): any {
   return authReq.user;
 }
 
+// Helper function to load the preview named by the route's PR number or
+// previewId, which the authenticated user must own
+export async function getPreviewFromParams(
+  req: Request
+): Promise<PreviewDetails> {
+  const identifier = req.params.prNumber || req.params.previewId;
+  if (!identifier) {
+    throw new AppError("Missing preview identifier", 400);
+  }
+
+  const user = getAuthenticatedUser(req);
+  if (!user) {
+    throw new AppError("Authentication required", 401);
+  }
+
+  // Try to parse as number (PR) or use as string (branch previewId)
+  const prNumber = parseInt(identifier, 10);
+  const preview = await previewService.getPreview(
+    isNaN(prNumber) ? identifier : prNumber
+  );
+  if (!preview) {
+    throw new AppError("Preview not found", 404);
+  }
+  await resourceLimitService.checkPreviewOwnership(
+    preview.previewId,
+    user._id.toString()
+  );
+
+  return preview;
+}
+
+// Helper function to reject a request that would have to wait for another
+// operation on the preview, such as a deploy, to release its lock
+function throwIfPreviewBusy(error: unknown): never {
+  if (error instanceof LockUnavailableError) {
+    throw new AppError(
+      "Preview is busy with another operation, try again later",
+      409
+    );
+  }
+  throw error;
+}
+
+// Helper function to validate a service healthcheck
+function validateHealthCheck(
+  serviceName: string,
+  healthcheck: HealthCheckConfig
+): void {
+  const probes = [healthcheck.http, healthcheck.tcp, healthcheck.command];
+  if (probes.filter((probe) => probe !== undefined).length !== 1) {
+    throw new AppError(
+      `Service ${serviceName} healthcheck must define exactly one of: http, tcp, command`,
+      400
+    );
+  }
+
+  if (
+    healthcheck.http !== undefined &&
+    (typeof healthcheck.http !== "string" || !healthcheck.http.startsWith("/"))
+  ) {
+    throw new AppError(
+      `Service ${serviceName} healthcheck http path must start with '/'`,
+      400
+    );
+  }
+
+  if (
+    healthcheck.tcp !== undefined &&
+    (!Number.isInteger(healthcheck.tcp) ||
+      healthcheck.tcp < 1 ||
+      healthcheck.tcp > 65535)
+  ) {
+    throw new AppError(
+      `Service ${serviceName} healthcheck has invalid tcp port: ${healthcheck.tcp}`,
+      400
+    );
+  }
+
+  for (const value of [healthcheck.interval, healthcheck.timeout]) {
+    if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+      throw new AppError(
+        `Service ${serviceName} healthcheck interval and timeout must be positive numbers of seconds`,
+        400
+      );
+    }
+  }
+}
+
+// Helper function to validate database migrations given in object form;
+// label is where the database config is, e.g. databases.events
+function validateMigrations(
+  previewConfig: PreviewConfig,
+  migrations: MigrationsConfig,
+  label: string
+): void {
+  if (typeof migrations !== "object" || migrations === null) {
+    throw new AppError(`${label}.migrations must be a path or an object`, 400);
+  }
+
+  const { path, command, service } = migrations;
+  if (path !== undefined && typeof path !== "string") {
+    throw new AppError(`${label}.migrations.path must be a path`, 400);
+  }
+  if (command !== undefined && typeof command !== "string") {
+    throw new AppError(`${label}.migrations.command must be a string`, 400);
+  }
+  if (!path && !command) {
+    throw new AppError(`${label}.migrations needs a path or a command`, 400);
+  }
+  if (service !== undefined) {
+    if (!command) {
+      throw new AppError(
+        `${label}.migrations.service requires ${label}.migrations.command`,
+        400
+      );
+    }
+    if (!previewConfig.services[service]) {
+      throw new AppError(
+        `${label}.migrations.service references unknown service: ${service}`,
+        400
+      );
+    }
+  }
+}
+
+// Helper function to validate the database or an entry of databases
+function validateDatabase(
+  previewConfig: PreviewConfig,
+  databaseConfig: DatabaseConfig,
+  label: string
+): void {
+  if (typeof databaseConfig !== "object" || databaseConfig === null) {
+    throw new AppError(`${label} must be an object`, 400);
+  }
+
+  const { type, mode, version, cloneFrom, migrations, seed } = databaseConfig;
+  if (!Object.values(DatabaseType).includes(type)) {
+    throw new AppError(`Invalid ${label} type: ${type}`, 400);
+  }
+  if (mode !== undefined && !Object.values(DatabaseMode).includes(mode)) {
+    throw new AppError(`Invalid ${label} mode: ${mode}`, 400);
+  }
+  if (
+    mode === DatabaseMode.DEDICATED &&
+    (type === DatabaseType.REDIS || type === DatabaseType.SQLITE)
+  ) {
+    throw new AppError(
+      `${label}.mode: dedicated does not support ${type}`,
+      400
+    );
+  }
+  if (version !== undefined) {
+    if (typeof version !== "string") {
+      throw new AppError(`${label}.version must be a string`, 400);
+    }
+    if (mode !== DatabaseMode.DEDICATED) {
+      throw new AppError(
+        `${label}.version requires ${label}.mode: dedicated`,
+        400
+      );
+    }
+  }
+  if (
+    cloneFrom !== undefined &&
+    (typeof cloneFrom !== "string" || !SNAPSHOT_NAME_PATTERN.test(cloneFrom))
+  ) {
+    throw new AppError(`Invalid ${label} snapshot name: ${cloneFrom}`, 400);
+  }
+  if (migrations !== undefined && typeof migrations !== "string") {
+    validateMigrations(previewConfig, migrations, label);
+  }
+  if (seed !== undefined && typeof seed !== "string") {
+    throw new AppError(`${label}.seed must be a path`, 400);
+  }
+}
+
+// Helper function to validate the volumes of a service
+function validateVolumes(serviceName: string, volumes: string[]): void {
+  if (!Array.isArray(volumes)) {
+    throw new AppError(`Service ${serviceName} volumes must be an array`, 400);
+  }
+
+  const paths = new Set<string>();
+  for (const volume of volumes) {
+    const parsed = parseServiceVolume(volume);
+    if (!parsed) {
+      throw new AppError(
+        `Service ${serviceName} has an invalid volume: ${volume}. Use name:/absolute/path, with a name of lowercase letters, digits, '_' and '-' that starts with a letter`,
+        400
+      );
+    }
+    if (paths.has(parsed.path)) {
+      throw new AppError(
+        `Service ${serviceName} mounts more than one volume at ${parsed.path}`,
+        400
+      );
+    }
+    paths.add(parsed.path);
+  }
+}
+
+// Helper function to validate a cron service, which runs to completion on
+// its schedule instead of serving
+function validateCronService(
+  serviceName: string,
+  serviceConfig: ServiceConfig
+): void {
+  if (!isValidCronSchedule(serviceConfig.schedule!)) {
+    throw new AppError(
+      `Service ${serviceName} needs a schedule of five cron fields, e.g. "*/5 * * * *"`,
+      400
+    );
+  }
+
+  for (const option of [
+    "port",
+    "expose",
+    "healthcheck",
+    "replicas",
+    "dependsOn",
+  ] as const) {
+    if (serviceConfig[option] !== undefined) {
+      throw new AppError(
+        `Service ${serviceName} is a cron service and does not support ${option}`,
+        400
+      );
+    }
+  }
+}
+
+// Helper function to validate the addons of a preview config
+function validateAddons(previewConfig: PreviewConfig): void {
+  if (!Array.isArray(previewConfig.addons)) {
+    throw new AppError("addons must be an array", 400);
+  }
+
+  const seen = new Set<string>();
+  for (const addon of previewConfig.addons) {
+    const type = typeof addon === "string" ? addon : addon?.type;
+    if (!Object.values(AddonType).includes(type)) {
+      throw new AppError(`Invalid addon type: ${type}`, 400);
+    }
+    if (
+      typeof addon === "object" &&
+      addon.version !== undefined &&
+      typeof addon.version !== "string"
+    ) {
+      throw new AppError(`Addon ${type} version must be a string`, 400);
+    }
+    if (seen.has(type)) {
+      throw new AppError(`Addon ${type} is declared more than once`, 400);
+    }
+    seen.add(type);
+
+    // The addon is reachable under its type as host name
+    if (previewConfig.services[type]) {
+      throw new AppError(`Addon ${type} has the same name as a service`, 400);
+    }
+  }
+}
+
 /**
  * @swagger
  * /api/previews:
  *   post:
  *     summary: Create or update a preview environment
- *     description: Creates a new preview environment or updates an existing one for a pull request
+ *     description: Enqueues a deployment job that creates a new preview environment or updates an existing one. Poll the returned job via GET /api/jobs/{jobId}.
  *     tags: [Previews]
  *     security:
  *       - bearerAuth: []
@@ -31,8 +321,8 @@ function getAuthenticatedUser(req: Request): any {
  *           schema:
  *             $ref: '#/components/schemas/PreviewConfig'
  *     responses:
- *       200:
- *         description: Preview created or updated successfully
+ *       202:
+ *         description: Deployment job queued
  *         content:
  *           application/json:
  *             schema:
@@ -41,7 +331,9 @@ function getAuthenticatedUser(req: Request): any {
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Preview'
+ *                   $ref: '#/components/schemas/Job'
+ *                 message:
+ *                   type: string
  *       400:
  *         description: Bad request
  *         content:
@@ -86,6 +378,20 @@ export async function createOrUpdatePreview(
       throw new AppError("Missing required fields: repoName, repoOwner", 400);
     }
 
+    if (previewConfig.previewType === "branch" && !previewConfig.branch) {
+      throw new AppError(
+        "Missing required field: branch (required for branch type)",
+        400
+      );
+    }
+
+    if (
+      previewConfig.baseBranch !== undefined &&
+      typeof previewConfig.baseBranch !== "string"
+    ) {
+      throw new AppError("baseBranch must be a branch name", 400);
+    }
+
     if (
       !previewConfig.services ||
       Object.keys(previewConfig.services).length === 0
@@ -93,6 +399,147 @@ export async function createOrUpdatePreview(
       throw new AppError("At least one service must be defined", 400);
     }
 
+    for (const [serviceName, serviceConfig] of Object.entries(
+      previewConfig.services
+    )) {
+      if (
+        serviceConfig.kind !== undefined &&
+        !Object.values(ServiceKind).includes(serviceConfig.kind)
+      ) {
+        throw new AppError(
+          `Service ${serviceName} has invalid kind: ${serviceConfig.kind}`,
+          400
+        );
+      }
+      if (getServiceKind(serviceConfig) === ServiceKind.CRON) {
+        validateCronService(serviceName, serviceConfig);
+      } else if (serviceConfig.schedule !== undefined) {
+        throw new AppError(
+          `Service ${serviceName} has a schedule but is not a cron service`,
+          400
+        );
+      }
+
+      if (serviceConfig.healthcheck) {
+        validateHealthCheck(serviceName, serviceConfig.healthcheck);
+      }
+
+      if (
+        serviceConfig.expose !== undefined &&
+        typeof serviceConfig.expose !== "boolean"
+      ) {
+        throw new AppError(
+          `Service ${serviceName} expose must be a boolean`,
+          400
+        );
+      }
+      if (
+        serviceConfig.expose === true &&
+        getServiceKind(serviceConfig) === ServiceKind.WORKER
+      ) {
+        throw new AppError(
+          `Service ${serviceName} is a worker and cannot be exposed`,
+          400
+        );
+      }
+
+      // The backend only reaches containers on the proxy network
+      if (
+        !isServiceExposed(serviceConfig) &&
+        (serviceConfig.healthcheck?.http !== undefined ||
+          serviceConfig.healthcheck?.tcp !== undefined)
+      ) {
+        throw new AppError(
+          `Service ${serviceName} is not exposed and can only use a command healthcheck`,
+          400
+        );
+      }
+
+      if (serviceConfig.volumes !== undefined) {
+        validateVolumes(serviceName, serviceConfig.volumes);
+      }
+
+      if (serviceConfig.resources) {
+        resourceLimitService.validateServiceResources(
+          user.plan,
+          serviceName,
+          serviceConfig.resources
+        );
+      }
+
+      if (serviceConfig.replicas !== undefined) {
+        resourceLimitService.validateServiceReplicas(
+          user.plan,
+          serviceName,
+          serviceConfig.replicas
+        );
+      }
+
+      for (const dependency of getServiceDependencies(serviceConfig)) {
+        if (typeof dependency.service !== "string") {
+          throw new AppError(
+            `Service ${serviceName} has a dependsOn entry without a service name`,
+            400
+          );
+        }
+        const dependencyConfig = previewConfig.services[dependency.service];
+        if (
+          dependencyConfig &&
+          getServiceKind(dependencyConfig) === ServiceKind.CRON
+        ) {
+          throw new AppError(
+            `Service ${serviceName} cannot depend on cron service ${dependency.service}`,
+            400
+          );
+        }
+        if (
+          !Object.values(DependencyCondition).includes(dependency.condition)
+        ) {
+          throw new AppError(
+            `Service ${serviceName} has invalid dependency condition: ${dependency.condition}`,
+            400
+          );
+        }
+      }
+    }
+
+    try {
+      orderServicesByDependencies(previewConfig.services);
+    } catch (error) {
+      throw new AppError((error as Error).message, 400);
+    }
+
+    if (previewConfig.database) {
+      validateDatabase(previewConfig, previewConfig.database, "database");
+    }
+    if (previewConfig.databases !== undefined) {
+      if (
+        typeof previewConfig.databases !== "object" ||
+        previewConfig.databases === null ||
+        Array.isArray(previewConfig.databases)
+      ) {
+        throw new AppError(
+          "databases must map database names to database configs",
+          400
+        );
+      }
+      for (const [key, databaseConfig] of Object.entries(
+        previewConfig.databases
+      )) {
+        if (!DATABASE_KEY_PATTERN.test(key)) {
+          throw new AppError(
+            `Invalid database name: ${key}. Names contain lowercase letters, digits and '_' and start with a letter`,
+            400
+          );
+        }
+        validateDatabase(previewConfig, databaseConfig, `databases.${key}`);
+      }
+    }
+
+    if (previewConfig.addons !== undefined) {
+      validateAddons(previewConfig);
+    }
+
     const previewLabel =
       previewConfig.previewType === "pull_request"
         ? `PR #${previewConfig.prNumber}`
@@ -101,6 +548,15 @@ export async function createOrUpdatePreview(
       `User ${user.email} creating/updating preview for ${previewLabel} in ${previewConfig.repoOwner}/${previewConfig.repoName}`
     );
 
+    // Volumes grow during the preview's life; new deployments with volumes
+    // wait until the owner is back under the storage quota
+    const usesVolumes = Object.values(previewConfig.services).some(
+      (serviceConfig) => (serviceConfig.volumes || []).length > 0
+    );
+    if (usesVolumes) {
+      await resourceLimitService.checkVolumeStorageLimit(user);
+    }
+
     // Check resource limits before creating (only for new previews)
     // Note: In a real implementation, you'd check if preview exists first
     try {
@@ -110,12 +566,24 @@ export async function createOrUpdatePreview(
       logger.debug("Resource limit check:", error);
     }
 
-    const preview = await previewService.createPreview(user._id, previewConfig);
+    const previewId = generatePreviewId(
+      previewConfig.previewType,
+      previewConfig.prNumber,
+      previewConfig.branch
+    );
 
-    res.status(200).json({
+    // Deployment runs in the background job worker
+    const job = await jobService.enqueueJob(
+      JobType.DEPLOY,
+      previewId,
+      user._id,
+      previewConfig
+    );
+
+    res.status(202).json({
       success: true,
-      data: preview,
-      message: "Preview created/updated successfully",
+      data: jobService.formatJobDetails(job),
+      message: "Preview deployment queued",
     });
   } catch (error) {
     logger.error("Failed to create/update preview:", error);
@@ -204,7 +672,7 @@ export async function getPreview(req: Request, res: Response): Promise<void> {
  *         name: status
  *         schema:
  *           type: string
- *           enum: [creating, running, updating, destroying, destroyed, failed]
+ *           enum: [creating, running, updating, paused, sleeping, destroying, destroyed, failed]
  *         description: Filter by preview status
  *       - in: query
  *         name: repoOwner
@@ -343,14 +811,23 @@ export async function destroyPreview(
 
     logger.info(`API request to destroy preview: ${identifier}`);
 
+    const user = getAuthenticatedUser(req);
+    const trigger: DeploymentTrigger = user
+      ? {
+          type: TriggerType.USER,
+          userId: user._id.toString(),
+          email: user.email,
+        }
+      : { type: TriggerType.USER };
+
     // Try to parse as number (PR) or use as string (branch previewId)
     const prNumber = parseInt(identifier, 10);
     if (isNaN(prNumber)) {
       // It's a branch previewId (string)
-      await previewService.destroyPreview(identifier);
+      await previewService.destroyPreview(identifier, trigger);
     } else {
       // It's a PR number (number)
-      await previewService.destroyPreview(prNumber);
+      await previewService.destroyPreview(prNumber, trigger);
     }
 
     res.status(200).json({
@@ -362,3 +839,279 @@ export async function destroyPreview(
     throw error;
   }
 }
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/rollback:
+ *   post:
+ *     summary: Roll back a preview to an earlier revision
+ *     description: Enqueues a job that redeploys a recorded revision of the preview. Without a revision, rolls back to the one deployed before the current revision.
+ *     tags: [Previews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               revision:
+ *                 type: integer
+ *                 description: Revision to roll back to
+ *                 example: 3
+ *     responses:
+ *       202:
+ *         description: Rollback job queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Invalid revision
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Preview or revision not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function rollbackPreview(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    if (!user) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const { revision } = req.body || {};
+    if (
+      revision !== undefined &&
+      (!Number.isInteger(revision) || revision < 1)
+    ) {
+      throw new AppError("revision must be a positive integer", 400);
+    }
+
+    const preview = await getPreviewFromParams(req);
+
+    if (revision !== undefined) {
+      if (!preview.revisions.some((r) => r.revision === revision)) {
+        throw new AppError(`Revision ${revision} not found`, 404);
+      }
+    } else if (
+      !preview.revisions.some((r) => r.revision < (preview.revision ?? 0))
+    ) {
+      throw new AppError("No earlier revision to roll back to", 400);
+    }
+
+    logger.info(
+      `User ${user.email} rolling back preview ${preview.previewId}${
+        revision !== undefined ? ` to revision ${revision}` : ""
+      }`
+    );
+
+    // Rollback runs in the background job worker
+    const job = await jobService.enqueueJob(
+      JobType.ROLLBACK,
+      preview.previewId,
+      user._id,
+      { revision }
+    );
+
+    res.status(202).json({
+      success: true,
+      data: jobService.formatJobDetails(job),
+      message: "Preview rollback queued",
+    });
+  } catch (error) {
+    logger.error("Failed to roll back preview:", error);
+    throw error;
+  }
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/pause:
+ *   post:
+ *     summary: Pause a preview environment
+ *     description: Stops the preview's containers but keeps them, the database and the images, so the preview can be resumed with its data intact
+ *     tags: [Previews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *     responses:
+ *       200:
+ *         description: Preview paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Preview'
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: Preview not found or not owned by the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Preview is not running, or busy with another operation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function pausePreview(req: Request, res: Response): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    const preview = await getPreviewFromParams(req);
+
+    if (
+      preview.status !== PreviewStatus.RUNNING &&
+      preview.status !== PreviewStatus.PAUSED &&
+      preview.status !== PreviewStatus.SLEEPING
+    ) {
+      throw new AppError(
+        `Preview is ${preview.status} and cannot be paused`,
+        409
+      );
+    }
+
+    await previewService
+      .pausePreview(
+        preview.previewId,
+        {
+          type: TriggerType.USER,
+          userId: user?._id.toString(),
+          email: user?.email,
+        },
+        0
+      )
+      .catch(throwIfPreviewBusy);
+
+    res.status(200).json({
+      success: true,
+      data: await previewService.getPreview(preview.previewId),
+      message: "Preview paused",
+    });
+  } catch (error) {
+    logger.error("Failed to pause preview:", error);
+    throw error;
+  }
+}
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/resume:
+ *   post:
+ *     summary: Resume a paused preview environment
+ *     description: Starts the containers of a paused or sleeping preview again and waits until they are ready
+ *     tags: [Previews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID (pr-{number} or branch-{name})
+ *     responses:
+ *       200:
+ *         description: Preview resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Preview'
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: Preview not found or not owned by the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Preview is not paused or sleeping, or busy with another operation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function resumePreview(
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    const preview = await getPreviewFromParams(req);
+
+    if (
+      preview.status !== PreviewStatus.PAUSED &&
+      preview.status !== PreviewStatus.SLEEPING &&
+      preview.status !== PreviewStatus.RUNNING
+    ) {
+      throw new AppError(
+        `Preview is ${preview.status} and cannot be resumed`,
+        409
+      );
+    }
+
+    await previewService
+      .resumePreview(
+        preview.previewId,
+        {
+          type: TriggerType.USER,
+          userId: user?._id.toString(),
+          email: user?.email,
+        },
+        0
+      )
+      .catch(throwIfPreviewBusy);
+
+    res.status(200).json({
+      success: true,
+      data: await previewService.getPreview(preview.previewId),
+      message: "Preview resumed",
+    });
+  } catch (error) {
+    logger.error("Failed to resume preview:", error);
+    throw error;
+  }
+}
@@ -7,18 +7,29 @@ import { connectDatabase } from "./config/database";
 import { ensureNetwork } from "./config/docker";
 import { config } from "./config/env";
 import { errorHandler } from "./middleware/errorHandler";
+import { wakeOnRequest } from "./middleware/wake";
+import accessRoutes from "./routes/access.routes";
 import authRoutes from "./routes/auth.routes";
 import healthRoutes from "./routes/health.routes";
+import jobRoutes from "./routes/job.routes";
 import previewRoutes from "./routes/preview.routes";
 import swaggerRoutes from "./routes/swagger.routes";
 import webhookRoutes from "./routes/webhook.routes";
+import { AccessService } from "./services/access.service";
 import { CleanupScheduler } from "./services/cleanup.service";
+import { ContainerMonitor } from "./services/container-monitor.service";
+import { CronScheduler } from "./services/cron.service";
+import { JobWorker } from "./services/job-worker.service";
 import { logger } from "./utils/logger";
 
 // Initialize Express with WebSocket support
 const wsInstance = expressWs(express());
 const app = wsInstance.app;
 
+// Requests for stopped previews, routed here by Traefik. Mounted before
+// helmet so the holding page can run its inline status polling script.
+app.use(wakeOnRequest);
+
 // Middleware
 app.use(helmet());
 app.use(cors());
@@ -36,7 +47,9 @@ app.use((req, _res, next) => {
 app.use("/api/health", healthRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/previews", previewRoutes);
+app.use("/api/jobs", jobRoutes);
 app.use("/api/webhooks", webhookRoutes);
+app.use("/api/access", accessRoutes);
 app.use("/api/docs", swaggerRoutes);
 
 // Root endpoint
@@ -49,6 +62,7 @@ app.get("/", (_req, res) => {
       health: "/api/health",
       auth: "/api/auth",
       previews: "/api/previews",
+      jobs: "/api/jobs",
       webhooks: "/api/webhooks",
       docs: "/api/docs",
     },
@@ -74,6 +88,32 @@ async function bootstrap() {
     cleanupScheduler.start();
     logger.info("✓ Cleanup scheduler started");
 
+    // Run cron services of previews on their schedule
+    const cronScheduler = new CronScheduler();
+    cronScheduler.start();
+    logger.info("✓ Cron scheduler started");
+
+    // Initialize deployment job worker (recovers interrupted jobs first)
+    const jobWorker = new JobWorker();
+    await jobWorker.start();
+    logger.info("✓ Job worker started");
+
+    // Initialize preview access tracking (batches lastAccessedAt updates)
+    const accessService = new AccessService();
+    accessService.start();
+    logger.info("✓ Access tracking started");
+    if (!config.accessTrackingUrl) {
+      // Without it lastAccessedAt only changes on deploys
+      logger.warn(
+        "ACCESS_TRACKING_URL is not set: idle previews are paused, destroyed or put to sleep by time since their last deploy, not their last request"
+      );
+    }
+
+    // Watch preview containers for OOM kills
+    const containerMonitor = new ContainerMonitor();
+    await containerMonitor.start();
+    logger.info("✓ Container monitor started");
+
     // Start server
     app.listen(config.port, () => {
       logger.info(`🚀 PreviewCloud Backend running on port ${config.port}`);
@@ -0,0 +1,159 @@
+import { NextFunction, Request, Response } from "express";
+import { config } from "../config/env";
+import { AccessService } from "../services/access.service";
+import { WakeService } from "../services/wake.service";
+import { PreviewStatus } from "../types/preview.types";
+
+const wakeService = new WakeService();
+const accessService = new AccessService();
+
+/**
+ * Path polled by the holding page for the preview status
+ */
+export const WAKE_STATUS_PATH = "/.previewcloud/wake";
+
+// Statuses in which the preview will be serving again shortly
+const STARTING_STATUSES = [
+  PreviewStatus.SLEEPING,
+  PreviewStatus.CREATING,
+  PreviewStatus.UPDATING,
+  PreviewStatus.RUNNING,
+];
+
+/**
+ * Handle requests for preview hosts that have no live Traefik route.
+ * Traefik sends them here through a low-priority catch-all router once the
+ * preview's containers are stopped. A sleeping preview is woken up and the
+ * visitor gets a holding page that reloads once the preview is running.
+ * Requests for the API host or any other host pass through to the API.
+ */
+export async function wakeOnRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const host = req.hostname;
+    if (
+      !host ||
+      host === config.apiDomain ||
+      !host.endsWith(`.${config.baseDomain}`)
+    ) {
+      return next();
+    }
+
+    const preview = await wakeService.findPreviewByHost(host);
+    if (!preview) {
+      return next();
+    }
+
+    if (preview.status === PreviewStatus.SLEEPING) {
+      wakeService.wakePreview(preview.previewId);
+    }
+
+    res.set("Cache-Control", "no-store");
+
+    if (req.path === WAKE_STATUS_PATH) {
+      res.status(200).json({
+        success: true,
+        data: { status: preview.status },
+      });
+      return;
+    }
+
+    // Holding page polls above are not counted as traffic
+    accessService.recordAccess(preview.previewId);
+
+    const starting = STARTING_STATUSES.includes(preview.status);
+    if (starting) {
+      res.set("Retry-After", "5");
+    }
+
+    if (req.method === "GET" && req.accepts("html")) {
+      res.status(503).type("html").send(renderWakePage(preview.status));
+      return;
+    }
+
+    res.status(503).json({
+      success: false,
+      error: starting
+        ? "Preview is starting, retry shortly"
+        : `Preview is ${preview.status}`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Render the holding page shown while a preview is not serving requests
+ */
+function renderWakePage(status: PreviewStatus): string {
+  let title: string;
+  let message: string;
+
+  switch (status) {
+    case PreviewStatus.SLEEPING:
+      title = "Waking up this preview";
+      message =
+        "It was stopped after a period of inactivity. This page reloads once it is ready.";
+      break;
+    case PreviewStatus.CREATING:
+    case PreviewStatus.UPDATING:
+      title = "Deploying this preview";
+      message =
+        "A deployment is in progress. This page reloads once it is ready.";
+      break;
+    case PreviewStatus.RUNNING:
+      title = "Almost there";
+      message = "The preview is running and its route is being set up.";
+      break;
+    case PreviewStatus.PAUSED:
+      title = "This preview is paused";
+      message = "Resume it from the PreviewCloud API or dashboard to view it.";
+      break;
+    default:
+      title = "This preview is unavailable";
+      message = `The preview is ${status}.`;
+  }
+
+  const starting = STARTING_STATUSES.includes(status);
+
+  // While waking, poll the status and reload the original URL once the
+  // preview is running; the meta refresh covers clients without JavaScript
+  const script =
+    status === PreviewStatus.RUNNING || !starting
+      ? ""
+      : `<script>
+      setInterval(function () {
+        fetch("${WAKE_STATUS_PATH}", { cache: "no-store" })
+          .then(function (res) { return res.json(); })
+          .then(function (body) {
+            if (body.data.status !== "${status}") location.reload();
+          })
+          .catch(function () { location.reload(); });
+      }, 2000);
+    </script>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    ${starting ? '<meta http-equiv="refresh" content="5" />' : ""}
+    <title>${title}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; color: #333; background: #f6f7f9; }
+      main { text-align: center; max-width: 28rem; padding: 2rem; }
+      h1 { font-size: 1.5rem; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${title}</h1>
+      <p>${message}</p>
+    </main>
+    ${script}
+  </body>
+</html>`;
+}
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  DeploymentAction,
+  DeploymentOutcome,
+  DeploymentStep,
+  DeploymentTrigger,
+  TriggerType,
+} from "../types/deployment.types";
+
+export interface IDeployment extends Document {
+  previewId: string; // pr-{number} or branch-{branch-name}
+  action: DeploymentAction;
+  commitSha?: string;
+  imageTags: Map<string, string>; // Image tag per service
+  outcome: DeploymentOutcome;
+  error?: string;
+  trigger: DeploymentTrigger;
+  steps: Array<{
+    name: DeploymentStep;
+    startedAt: Date;
+    durationMs: number;
+    succeeded: boolean;
+  }>;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeploymentSchema = new Schema<IDeployment>(
+  {
+    previewId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(DeploymentAction),
+      required: true,
+    },
+    commitSha: String,
+    imageTags: {
+      type: Map,
+      of: String,
+      default: new Map(),
+    },
+    outcome: {
+      type: String,
+      enum: Object.values(DeploymentOutcome),
+      default: DeploymentOutcome.IN_PROGRESS,
+      index: true,
+    },
+    error: String,
+    trigger: {
+      type: {
+        type: String,
+        enum: Object.values(TriggerType),
+        required: true,
+      },
+      userId: String,
+      email: String,
+      event: String,
+    },
+    steps: [
+      {
+        name: {
+          type: String,
+          enum: Object.values(DeploymentStep),
+          required: true,
+        },
+        startedAt: { type: Date, required: true },
+        durationMs: { type: Number, required: true },
+        succeeded: { type: Boolean, required: true },
+      },
+    ],
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    finishedAt: Date,
+    durationMs: Number,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound index for per-preview history queries
+DeploymentSchema.index({ previewId: 1, startedAt: -1 });
+
+export const Deployment = mongoose.model<IDeployment>(
+  "Deployment",
+  DeploymentSchema
+);
@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { JobStatus, JobType } from "../types/job.types";
+
+export interface IJob extends Document {
+  type: JobType;
+  previewId: string; // Preview the job operates on: pr-{number} or branch-{branch-name}
+  userId: mongoose.Types.ObjectId; // User who enqueued the job
+  status: JobStatus;
+  payload: Record<string, any>; // Job input (PreviewConfig for deploy jobs)
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date; // Earliest time the job may be picked up (used for retry backoff)
+  lockedAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  cancelRequested: boolean;
+  error?: string;
+  result?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      enum: Object.values(JobType),
+      required: true,
+    },
+    previewId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(JobStatus),
+      default: JobStatus.QUEUED,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 1,
+    },
+    runAfter: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: Date,
+    startedAt: Date,
+    finishedAt: Date,
+    cancelRequested: {
+      type: Boolean,
+      default: false,
+    },
+    error: String,
+    result: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound index for the worker's queue polling
+JobSchema.index({ status: 1, runAfter: 1, createdAt: 1 });
+JobSchema.index({ previewId: 1, createdAt: -1 });
+
+// Expire finished jobs after 7 days (queued/running jobs have no finishedAt)
+JobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 604800 });
+
+export const Job = mongoose.model<IJob>("Job", JobSchema);
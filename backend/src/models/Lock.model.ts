@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ILock extends Document {
+  key: string; // Resource being locked, e.g. a previewId
+  owner: string; // Unique token of the process/operation holding the lock
+  expiresAt: Date; // Lease expiry; the lock is free once this has passed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LockSchema = new Schema<ILock>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    owner: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB remove locks whose lease has expired
+LockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Lock = mongoose.model<ILock>("Lock", LockSchema);
@@ -1,10 +1,32 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { AddonType } from "../types/addon.types";
 import {
+  DatabaseMode,
   DatabaseType,
   PreviewStatus,
   PreviewType,
+  ServiceConfig,
+  ServiceFailureReason,
+  ServiceKind,
 } from "../types/preview.types";
 
+export interface IPreviewDatabase {
+  key?: string; // Name in the databases section; unset for database
+  type: DatabaseType;
+  mode?: DatabaseMode; // Unset before dedicated mode existed: shared
+  name: string;
+  user?: string; // Database user that owns only this database
+  encryptedPassword?: string;
+  connectionString: string; // Without the password
+  containerId?: string; // Dedicated mode only
+  image?: string; // Dedicated mode only
+  encryptedAdminPassword?: string; // Dedicated mode only
+  sizeBytes?: number;
+  sizeMeasuredAt?: Date;
+  quotaExceededAt?: Date; // Since when the size is over the plan's quota
+  restricted?: boolean; // Read-only until back under the quota
+}
+
 export interface IPreview extends Document {
   userId: mongoose.Types.ObjectId; // NEW: Owner of this preview
   organizationId?: mongoose.Types.ObjectId; // NEW: Optional organization
@@ -14,29 +36,87 @@ export interface IPreview extends Document {
   repoName: string;
   repoOwner: string;
   branch: string;
+  baseBranch?: string; // Branch a PR targets
   commitSha: string;
   status: PreviewStatus;
   services: Array<{
     name: string;
-    containerId: string;
+    kind?: ServiceKind; // Unset before service kinds existed: web
+    containerId: string; // First replica
+    replicas: Array<{
+      containerId: string;
+      status: string;
+    }>; // Empty for services deployed before replicas
     imageTag: string;
-    port: number;
-    url: string;
+    port?: number;
+    url?: string;
     status: string;
+    failureReason?: string;
+  }>;
+  database?: IPreviewDatabase;
+  databases: IPreviewDatabase[]; // From the databases section, with a key
+  volumes: Array<{
+    name: string; // Name in the services' volumes
+    volumeName: string; // Docker volume
+    sizeBytes?: number;
+    sizeMeasuredAt?: Date;
+  }>;
+  cronJobs: Array<{
+    name: string; // Cron service of the current revision
+    schedule: string;
+    imageTag: string;
+    lastRunAt?: Date; // Scheduled time of the last run
+    lastExitCode?: number | null;
+    runningSince?: Date | null;
+  }>;
+  addons: Array<{
+    type: AddonType;
+    containerId: string;
+    image: string;
+    host: string;
+    env: Record<string, string>; // Connection env vars
   }>;
-  database?: {
-    type: DatabaseType;
-    name: string;
-    connectionString: string;
-  };
   urls: Map<string, string>;
   env: Map<string, string>;
   password?: string;
+  currentRevision?: number;
+  revisions: Array<{
+    revision: number;
+    commitSha: string;
+    services: Record<string, ServiceConfig>; // Service configs incl. image tags
+    env: Record<string, string>;
+    rollbackOf?: number;
+    deployedAt: Date;
+  }>;
   createdAt: Date;
   updatedAt: Date;
   lastAccessedAt: Date;
+  requestCount: number;
 }
 
+// Shared by database and the entries of databases
+const databaseFields = {
+  type: {
+    type: String,
+    enum: Object.values(DatabaseType),
+  },
+  mode: {
+    type: String,
+    enum: Object.values(DatabaseMode),
+  },
+  name: String,
+  user: String,
+  encryptedPassword: String,
+  connectionString: String,
+  containerId: String,
+  image: String,
+  encryptedAdminPassword: String,
+  sizeBytes: Number,
+  sizeMeasuredAt: Date,
+  quotaExceededAt: Date,
+  restricted: Boolean,
+};
+
 const PreviewSchema = new Schema<IPreview>(
   {
     userId: {
@@ -79,6 +159,7 @@ const PreviewSchema = new Schema<IPreview>(
       type: String,
       required: true,
     },
+    baseBranch: String,
     commitSha: {
       type: String,
       required: true,
@@ -92,21 +173,65 @@ const PreviewSchema = new Schema<IPreview>(
     services: [
       {
         name: { type: String, required: true },
+        kind: {
+          type: String,
+          enum: Object.values(ServiceKind),
+        },
         containerId: { type: String, required: true },
+        replicas: [
+          {
+            containerId: { type: String, required: true },
+            status: { type: String, required: true },
+          },
+        ],
         imageTag: { type: String, required: true },
         port: { type: Number },
-        url: { type: String, required: true },
+        url: { type: String },
         status: { type: String, required: true },
+        failureReason: {
+          type: String,
+          enum: Object.values(ServiceFailureReason),
+        },
       },
     ],
-    database: {
-      type: {
-        type: String,
-        enum: Object.values(DatabaseType),
+    database: databaseFields,
+    databases: [
+      {
+        ...databaseFields,
+        key: { type: String, required: true },
       },
-      name: String,
-      connectionString: String,
-    },
+    ],
+    volumes: [
+      {
+        name: { type: String, required: true },
+        volumeName: { type: String, required: true },
+        sizeBytes: Number,
+        sizeMeasuredAt: Date,
+      },
+    ],
+    cronJobs: [
+      {
+        name: { type: String, required: true },
+        schedule: { type: String, required: true },
+        imageTag: { type: String, required: true },
+        lastRunAt: Date,
+        lastExitCode: Number,
+        runningSince: Date,
+      },
+    ],
+    addons: [
+      {
+        type: {
+          type: String,
+          enum: Object.values(AddonType),
+          required: true,
+        },
+        containerId: { type: String, required: true },
+        image: { type: String, required: true },
+        host: { type: String, required: true },
+        env: { type: Schema.Types.Mixed, default: {} },
+      },
+    ],
     urls: {
       type: Map,
       of: String,
@@ -118,11 +243,26 @@ const PreviewSchema = new Schema<IPreview>(
       default: new Map(),
     },
     password: String,
+    currentRevision: Number,
+    revisions: [
+      {
+        revision: { type: Number, required: true },
+        commitSha: { type: String, required: true },
+        services: { type: Schema.Types.Mixed, required: true },
+        env: { type: Schema.Types.Mixed, default: {} },
+        rollbackOf: Number,
+        deployedAt: { type: Date, default: Date.now },
+      },
+    ],
     lastAccessedAt: {
       type: Date,
       default: Date.now,
       index: true,
     },
+    requestCount: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { DatabaseSchema } from "../types/database.types";
+import { DatabaseType } from "../types/preview.types";
+
+export interface ISchemaBaseline extends Document {
+  repoOwner: string;
+  repoName: string;
+  branch: string;
+  databaseType: DatabaseType;
+  commitSha: string; // Commit whose migrations produced the schema
+  databaseSchema: DatabaseSchema;
+  createdAt: Date;
+  updatedAt: Date; // When the schema was last captured
+}
+
+const SchemaBaselineSchema = new Schema<ISchemaBaseline>(
+  {
+    repoOwner: {
+      type: String,
+      required: true,
+    },
+    repoName: {
+      type: String,
+      required: true,
+    },
+    branch: {
+      type: String,
+      required: true,
+    },
+    databaseType: {
+      type: String,
+      enum: Object.values(DatabaseType),
+      required: true,
+    },
+    commitSha: {
+      type: String,
+      required: true,
+    },
+    databaseSchema: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One baseline per branch, kept after its preview is destroyed
+SchemaBaselineSchema.index(
+  { repoOwner: 1, repoName: 1, branch: 1 },
+  { unique: true }
+);
+
+export const SchemaBaseline = mongoose.model<ISchemaBaseline>(
+  "SchemaBaseline",
+  SchemaBaselineSchema
+);
@@ -0,0 +1,48 @@
+import { Request, Response, Router } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { AccessService } from "../services/access.service";
+import { logger } from "../utils/logger";
+
+const router = Router();
+const accessService = new AccessService();
+
+/**
+ * @swagger
+ * /api/access/{previewId}:
+ *   get:
+ *     summary: Record a request to a preview
+ *     description: Traefik forward-auth hook added to every preview router. Counts the request and always allows it, so tracking never blocks preview traffic.
+ *     tags: [Access]
+ *     parameters:
+ *       - in: path
+ *         name: previewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signature of the preview ID, generated when the preview is deployed
+ *     responses:
+ *       200:
+ *         description: Request allowed
+ */
+router.get(
+  "/:previewId",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { previewId } = req.params;
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+
+    if (accessService.verifyToken(previewId, token)) {
+      accessService.recordAccess(previewId);
+    } else {
+      logger.warn(`Ignoring access record with invalid token for ${previewId}`);
+    }
+
+    res.status(200).end();
+  })
+);
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import * as jobController from "../controllers/job.controller";
+import { verifyApiToken } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorHandler";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}:
+ *   get:
+ *     summary: Get deployment job status
+ *     tags: [Jobs]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job details
+ *       404:
+ *         description: Job not found
+ */
+router.get("/:jobId", verifyApiToken, asyncHandler(jobController.getJob));
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a deployment job
+ *     tags: [Jobs]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation accepted
+ *       404:
+ *         description: Job not found
+ */
+router.post(
+  "/:jobId/cancel",
+  verifyApiToken,
+  asyncHandler(jobController.cancelJob)
+);
+
+export default router;
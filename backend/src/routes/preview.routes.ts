@@ -1,4 +1,6 @@
 import { Router } from "express";
+import * as databaseController from "../controllers/database.controller";
+import * as deploymentController from "../controllers/deployment.controller";
 import * as logsController from "../controllers/logs.controller";
 import * as previewController from "../controllers/preview.controller";
 import { verifyApiToken } from "../middleware/auth";
@@ -39,8 +41,8 @@ const router = Router();
  *                 items:
  *                   type: object
  *     responses:
- *       200:
- *         description: Preview created/updated successfully
+ *       202:
+ *         description: Deployment job queued
  *       401:
  *         description: Unauthorized
  */
@@ -152,6 +154,214 @@ router.delete(
   asyncHandler(previewController.destroyPreview)
 );
 
+/**
+ * @swagger
+ * /api/previews/{prNumber}/pause:
+ *   post:
+ *     summary: Pause a preview environment
+ *     tags: [Previews]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       200:
+ *         description: Preview paused
+ *       404:
+ *         description: Preview not found
+ *       409:
+ *         description: Preview is not running
+ */
+router.post(
+  "/:prNumber/pause",
+  verifyApiToken,
+  asyncHandler(previewController.pausePreview)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/resume:
+ *   post:
+ *     summary: Resume a paused preview environment
+ *     tags: [Previews]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       200:
+ *         description: Preview resumed
+ *       404:
+ *         description: Preview not found
+ *       409:
+ *         description: Preview is not paused or sleeping
+ */
+router.post(
+  "/:prNumber/resume",
+  verifyApiToken,
+  asyncHandler(previewController.resumePreview)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/rollback:
+ *   post:
+ *     summary: Roll back a preview to an earlier revision
+ *     tags: [Previews]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       202:
+ *         description: Rollback job queued
+ *       404:
+ *         description: Preview or revision not found
+ */
+router.post(
+  "/:prNumber/rollback",
+  verifyApiToken,
+  asyncHandler(previewController.rollbackPreview)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/snapshot:
+ *   post:
+ *     summary: Save a preview's database as a named snapshot
+ *     tags: [Databases]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       201:
+ *         description: Snapshot created
+ *       404:
+ *         description: Preview not found
+ *       409:
+ *         description: Preview has no database or is not running
+ */
+router.post(
+  "/:prNumber/database/snapshot",
+  verifyApiToken,
+  asyncHandler(databaseController.createSnapshot)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/schema-diff:
+ *   get:
+ *     summary: Compare a preview's database schema with its base branch
+ *     tags: [Databases]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *       - in: query
+ *         name: base
+ *         schema:
+ *           type: string
+ *         description: Branch to compare with
+ *     responses:
+ *       200:
+ *         description: Schema changes
+ *       404:
+ *         description: Preview or schema baseline not found
+ *       409:
+ *         description: Preview has no database or is not running
+ */
+router.get(
+  "/:prNumber/database/schema-diff",
+  verifyApiToken,
+  asyncHandler(databaseController.getSchemaDiff)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/database/query:
+ *   post:
+ *     summary: Run a read-only query against a preview's database
+ *     tags: [Databases]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       200:
+ *         description: Query result
+ *       400:
+ *         description: Invalid query, a write, or a timeout
+ *       404:
+ *         description: Preview not found or not owned by the user
+ *       409:
+ *         description: Preview has no database or is not running
+ */
+router.post(
+  "/:prNumber/database/query",
+  verifyApiToken,
+  asyncHandler(databaseController.queryDatabase)
+);
+
+/**
+ * @swagger
+ * /api/previews/{prNumber}/deployments:
+ *   get:
+ *     summary: Get deployment history for a preview
+ *     tags: [Deployments]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: PR number or preview ID
+ *     responses:
+ *       200:
+ *         description: Deployment history
+ *       400:
+ *         description: Invalid limit or offset
+ *       404:
+ *         description: Preview not found
+ */
+router.get(
+  "/:prNumber/deployments",
+  verifyApiToken,
+  asyncHandler(deploymentController.getDeployments)
+);
+
 /**
  * @swagger
  * /api/previews/{prNumber}/logs:
@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { config } from "../config/env";
+import { Preview } from "../models/Preview.model";
+import { logger } from "../utils/logger";
+
+// Requests recorded since the last flush, keyed by preview ID
+const pending = new Map<string, { count: number; lastAccessedAt: Date }>();
+
+export class AccessService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start flushing recorded requests to the database periodically
+   */
+  start(): void {
+    this.timer = setInterval(
+      () => this.flush(),
+      config.accessFlushIntervalSeconds * 1000
+    );
+
+    logger.info(
+      `Access tracking started (flushes every ${config.accessFlushIntervalSeconds}s)`
+    );
+  }
+
+  /**
+   * Stop flushing and write out what is still pending
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Record a request to one of a preview's services
+   */
+  recordAccess(previewId: string): void {
+    const entry = pending.get(previewId);
+    if (entry) {
+      entry.count++;
+      entry.lastAccessedAt = new Date();
+    } else {
+      pending.set(previewId, { count: 1, lastAccessedAt: new Date() });
+    }
+  }
+
+  /**
+   * Write recorded requests to their previews in one batch
+   */
+  async flush(): Promise<void> {
+    if (pending.size === 0) {
+      return;
+    }
+
+    const entries = Array.from(pending.entries());
+    pending.clear();
+
+    try {
+      await Preview.bulkWrite(
+        entries.map(([previewId, entry]) => ({
+          updateOne: {
+            filter: { previewId },
+            update: {
+              $inc: { requestCount: entry.count },
+              $max: { lastAccessedAt: entry.lastAccessedAt },
+            },
+          },
+        }))
+      );
+      logger.debug(`Flushed access counts for ${entries.length} previews`);
+    } catch (error) {
+      logger.error("Failed to flush preview access counts:", error);
+    }
+  }
+
+  /**
+   * Address of the Traefik forward-auth hook that records requests to a
+   * preview, or null when access tracking is disabled
+   */
+  getTrackingAddress(previewId: string): string | null {
+    if (!config.accessTrackingUrl) {
+      return null;
+    }
+
+    const baseUrl = config.accessTrackingUrl.replace(/\/$/, "");
+    return `${baseUrl}/api/access/${encodeURIComponent(
+      previewId
+    )}?token=${this.generateToken(previewId)}`;
+  }
+
+  /**
+   * Check the token embedded in a preview's tracking address
+   */
+  verifyToken(previewId: string, token: string): boolean {
+    const expected = Buffer.from(this.generateToken(previewId));
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Sign a preview ID so only Traefik can record requests for it
+   */
+  private generateToken(previewId: string): string {
+    return crypto
+      .createHmac("sha256", config.apiTokenSecret)
+      .update(`access:${previewId}`)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import { AddonConfig, AddonDetails, AddonType } from "../../types/addon.types";
+import { HealthCheckConfig } from "../../types/preview.types";
+import {
+  generateContainerName,
+  generateNetworkName,
+} from "../../utils/helpers";
+import { logger } from "../../utils/logger";
+import { DockerService } from "../docker.service";
+import { HealthCheckService } from "../health-check.service";
+import { IAddonProvisioner } from "./provisioner.interface";
+
+/**
+ * Runs an addon as a container on the preview's network. Subclasses
+ * describe the image, its settings and the env vars services connect with.
+ */
+export abstract class ContainerAddonProvisioner implements IAddonProvisioner {
+  protected abstract readonly type: AddonType;
+  protected abstract readonly image: string;
+  protected abstract readonly defaultVersion: string;
+  protected abstract readonly port: number;
+
+  // Command run inside the container to check readiness; without one the
+  // container only has to stay running
+  protected readonly healthcheck?: HealthCheckConfig;
+
+  protected dockerService: DockerService;
+  private healthCheckService: HealthCheckService;
+
+  constructor() {
+    this.dockerService = new DockerService();
+    this.healthCheckService = new HealthCheckService();
+  }
+
+  /**
+   * Environment of the addon container
+   */
+  protected abstract getContainerEnv(password: string): Record<string, string>;
+
+  abstract getConnectionEnv(
+    host: string,
+    password: string
+  ): Record<string, string>;
+
+  /**
+   * Command of the addon container, if the image default is not enough
+   */
+  protected getCommand(_password: string): string[] | undefined {
+    return undefined;
+  }
+
+  async createAddon(
+    previewId: string,
+    addon: AddonConfig
+  ): Promise<AddonDetails> {
+    const image = `${this.image}:${addon.version || this.defaultVersion}`;
+    const password = crypto.randomBytes(16).toString("hex");
+    const host = this.type;
+
+    await this.dockerService.pullImage(image);
+
+    const containerId = await this.dockerService.createContainer({
+      name: generateContainerName(previewId, this.type),
+      image,
+      env: this.getContainerEnv(password),
+      command: this.getCommand(password),
+      labels: {
+        "previewcloud.managed": "true",
+        "previewcloud.previewId": previewId,
+        "previewcloud.addon": this.type,
+      },
+      networks: [generateNetworkName(previewId)],
+      aliases: [host],
+    });
+
+    const details: AddonDetails = {
+      type: this.type,
+      containerId,
+      image,
+      host,
+      env: this.getConnectionEnv(host, password),
+    };
+
+    try {
+      await this.dockerService.startContainer(containerId);
+      await this.waitForReady(details);
+    } catch (error) {
+      await this.dockerService
+        .removeContainer(containerId, true)
+        .catch(() => undefined);
+      throw error;
+    }
+
+    logger.info(`Addon ${this.type} started for preview ${previewId}`);
+    return details;
+  }
+
+  async waitForReady(addon: AddonDetails): Promise<void> {
+    if (this.healthcheck) {
+      await this.healthCheckService.waitForHealthy(
+        addon.containerId,
+        this.healthcheck,
+        this.port
+      );
+    } else {
+      await this.dockerService.waitForContainerReady(addon.containerId);
+    }
+  }
+
+  async destroyAddon(addon: AddonDetails): Promise<void> {
+    await this.dockerService.removeContainer(addon.containerId, true);
+    logger.info(`Addon ${addon.type} removed: ${addon.containerId}`);
+  }
+}
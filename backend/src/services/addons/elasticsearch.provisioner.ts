@@ -0,0 +1,28 @@
+import { AddonType } from "../../types/addon.types";
+import { ContainerAddonProvisioner } from "./base.provisioner";
+
+export class ElasticsearchProvisioner extends ContainerAddonProvisioner {
+  protected readonly type = AddonType.ELASTICSEARCH;
+  protected readonly image = "docker.elastic.co/elasticsearch/elasticsearch";
+  protected readonly defaultVersion = "8.13.4";
+  protected readonly port = 9200;
+  protected readonly healthcheck = {
+    command: "curl -fs http://localhost:9200/_cluster/health",
+    timeout: 300,
+  };
+
+  // Security is disabled; the node is only reachable on the preview network
+  protected getContainerEnv(): Record<string, string> {
+    return {
+      "discovery.type": "single-node",
+      "xpack.security.enabled": "false",
+      ES_JAVA_OPTS: "-Xms512m -Xmx512m",
+    };
+  }
+
+  getConnectionEnv(host: string): Record<string, string> {
+    return {
+      ELASTICSEARCH_URL: `http://${host}:${this.port}`,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { AddonType } from "../../types/addon.types";
+import { ElasticsearchProvisioner } from "./elasticsearch.provisioner";
+import { MailHogProvisioner } from "./mailhog.provisioner";
+import { MinioProvisioner } from "./minio.provisioner";
+import { IAddonProvisioner } from "./provisioner.interface";
+import { RabbitMQProvisioner } from "./rabbitmq.provisioner";
+import { RedisProvisioner } from "./redis.provisioner";
+
+/**
+ * Factory to get the appropriate addon provisioner
+ */
+export class AddonProvisionerFactory {
+  private static provisioners: Map<AddonType, IAddonProvisioner> = new Map();
+
+  static getProvisioner(type: AddonType): IAddonProvisioner {
+    // Return cached provisioner if exists
+    if (this.provisioners.has(type)) {
+      return this.provisioners.get(type)!;
+    }
+
+    // Create new provisioner
+    let provisioner: IAddonProvisioner;
+
+    switch (type) {
+      case AddonType.REDIS:
+        provisioner = new RedisProvisioner();
+        break;
+      case AddonType.RABBITMQ:
+        provisioner = new RabbitMQProvisioner();
+        break;
+      case AddonType.MINIO:
+        provisioner = new MinioProvisioner();
+        break;
+      case AddonType.ELASTICSEARCH:
+        provisioner = new ElasticsearchProvisioner();
+        break;
+      case AddonType.MAILHOG:
+        provisioner = new MailHogProvisioner();
+        break;
+      default:
+        throw new Error(`Unsupported addon type: ${type}`);
+    }
+
+    // Cache provisioner
+    this.provisioners.set(type, provisioner);
+    return provisioner;
+  }
+}
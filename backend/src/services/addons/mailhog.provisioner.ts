@@ -0,0 +1,24 @@
+import { AddonType } from "../../types/addon.types";
+import { ContainerAddonProvisioner } from "./base.provisioner";
+
+const WEB_PORT = 8025;
+
+export class MailHogProvisioner extends ContainerAddonProvisioner {
+  protected readonly type = AddonType.MAILHOG;
+  protected readonly image = "mailhog/mailhog";
+  protected readonly defaultVersion = "v1.0.1";
+  protected readonly port = 1025;
+
+  protected getContainerEnv(): Record<string, string> {
+    return {};
+  }
+
+  getConnectionEnv(host: string): Record<string, string> {
+    return {
+      SMTP_HOST: host,
+      SMTP_PORT: this.port.toString(),
+      SMTP_URL: `smtp://${host}:${this.port}`,
+      MAILHOG_URL: `http://${host}:${WEB_PORT}`,
+    };
+  }
+}
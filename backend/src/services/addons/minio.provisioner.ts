@@ -0,0 +1,32 @@
+import { AddonType } from "../../types/addon.types";
+import { ContainerAddonProvisioner } from "./base.provisioner";
+
+export class MinioProvisioner extends ContainerAddonProvisioner {
+  protected readonly type = AddonType.MINIO;
+  protected readonly image = "minio/minio";
+  protected readonly defaultVersion = "latest";
+  protected readonly port = 9000;
+  protected readonly healthcheck = { command: "mc ready local" };
+
+  protected getContainerEnv(password: string): Record<string, string> {
+    return {
+      MINIO_ROOT_USER: "preview",
+      MINIO_ROOT_PASSWORD: password,
+    };
+  }
+
+  protected getCommand(): string[] {
+    return ["server", "/data"];
+  }
+
+  getConnectionEnv(host: string, password: string): Record<string, string> {
+    const endpoint = `http://${host}:${this.port}`;
+    return {
+      MINIO_URL: endpoint,
+      S3_ENDPOINT: endpoint,
+      S3_ACCESS_KEY: "preview",
+      S3_SECRET_KEY: password,
+      S3_FORCE_PATH_STYLE: "true",
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { AddonConfig, AddonDetails } from "../../types/addon.types";
+
+/**
+ * Interface for addon provisioners
+ */
+export interface IAddonProvisioner {
+  /**
+   * Start the addon container on a preview's network and wait until it
+   * accepts connections
+   */
+  createAddon(previewId: string, addon: AddonConfig): Promise<AddonDetails>;
+
+  /**
+   * Wait until a started addon container accepts connections
+   */
+  waitForReady(addon: AddonDetails): Promise<void>;
+
+  /**
+   * Destroy an addon container and its data
+   */
+  destroyAddon(addon: AddonDetails): Promise<void>;
+
+  /**
+   * Get the connection env vars injected into the preview's services
+   */
+  getConnectionEnv(host: string, password: string): Record<string, string>;
+}
@@ -0,0 +1,30 @@
+import { AddonType } from "../../types/addon.types";
+import { ContainerAddonProvisioner } from "./base.provisioner";
+
+export class RabbitMQProvisioner extends ContainerAddonProvisioner {
+  protected readonly type = AddonType.RABBITMQ;
+  protected readonly image = "rabbitmq";
+  protected readonly defaultVersion = "3-alpine";
+  protected readonly port = 5672;
+  protected readonly healthcheck = {
+    command: "rabbitmq-diagnostics -q ping",
+    timeout: 180,
+  };
+
+  protected getContainerEnv(password: string): Record<string, string> {
+    return {
+      RABBITMQ_DEFAULT_USER: "preview",
+      RABBITMQ_DEFAULT_PASS: password,
+    };
+  }
+
+  getConnectionEnv(host: string, password: string): Record<string, string> {
+    return {
+      RABBITMQ_URL: `amqp://preview:${password}@${host}:${this.port}`,
+      RABBITMQ_HOST: host,
+      RABBITMQ_PORT: this.port.toString(),
+      RABBITMQ_USER: "preview",
+      RABBITMQ_PASSWORD: password,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { AddonType } from "../../types/addon.types";
+import { ContainerAddonProvisioner } from "./base.provisioner";
+
+export class RedisProvisioner extends ContainerAddonProvisioner {
+  protected readonly type = AddonType.REDIS;
+  protected readonly image = "redis";
+  protected readonly defaultVersion = "7-alpine";
+  protected readonly port = 6379;
+  protected readonly healthcheck = {
+    command:
+      'redis-cli -a "$REDIS_PASSWORD" --no-auth-warning ping | grep -q PONG',
+  };
+
+  protected getContainerEnv(password: string): Record<string, string> {
+    return { REDIS_PASSWORD: password };
+  }
+
+  protected getCommand(password: string): string[] {
+    return ["redis-server", "--requirepass", password];
+  }
+
+  getConnectionEnv(host: string, password: string): Record<string, string> {
+    return {
+      REDIS_URL: `redis://:${password}@${host}:${this.port}`,
+      REDIS_HOST: host,
+      REDIS_PORT: this.port.toString(),
+      REDIS_PASSWORD: password,
+    };
+  }
+}
@@ -1,7 +1,8 @@
 import cron from "node-cron";
 import { config } from "../config/env";
 import { Preview } from "../models/Preview.model";
-import { PreviewStatus } from "../types/preview.types";
+import { TriggerType } from "../types/deployment.types";
+import { IdleAction, PreviewStatus } from "../types/preview.types";
 import { logger } from "../utils/logger";
 import { DockerService } from "./docker.service";
 import { LogsService } from "./logs.service";
@@ -55,11 +56,14 @@ export class CleanupScheduler {
   private async runCleanup(): Promise<void> {
     try {
       await Promise.all([
+        this.sleepIdlePreviews(),
         this.cleanupIdlePreviews(),
         this.cleanupDestroyedPreviews(),
         this.enforcePreviewLimit(),
         this.cleanupOrphanContainers(),
         this.cleanupOldLogs(),
+        this.recordDatabaseSizes(),
+        this.recordVolumeSizes(),
       ]);
 
       logger.info("Cleanup completed successfully");
@@ -69,7 +73,46 @@ export class CleanupScheduler {
   }
 
   /**
-   * Clean up idle previews (inactive for longer than configured timeout)
+   * Put previews without recent requests to sleep (scale to zero). The
+   * wake-on-request handler starts them again on the next request.
+   */
+  private async sleepIdlePreviews(): Promise<void> {
+    if (config.scaleToZeroIdleMinutes <= 0) {
+      return;
+    }
+
+    try {
+      const idleThreshold = new Date(
+        Date.now() - config.scaleToZeroIdleMinutes * 60 * 1000
+      );
+
+      const idlePreviews = await Preview.find({
+        status: PreviewStatus.RUNNING,
+        lastAccessedAt: { $lt: idleThreshold },
+      });
+
+      for (const preview of idlePreviews) {
+        try {
+          logger.info(`Putting idle preview to sleep: ${preview.previewId}`);
+          await this.previewService.sleepPreview(preview.previewId, {
+            type: TriggerType.SYSTEM,
+            event: "scale-to-zero",
+          });
+        } catch (error) {
+          logger.error(
+            `Failed to put preview ${preview.previewId} to sleep:`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to put idle previews to sleep:", error);
+    }
+  }
+
+  /**
+   * Clean up idle previews (inactive for longer than configured timeout).
+   * Depending on IDLE_ACTION they are destroyed or paused.
    */
   private async cleanupIdlePreviews(): Promise<void> {
     try {
@@ -79,7 +122,7 @@ export class CleanupScheduler {
       );
 
       const idlePreviews = await Preview.find({
-        status: PreviewStatus.RUNNING,
+        status: { $in: [PreviewStatus.RUNNING, PreviewStatus.SLEEPING] },
         lastAccessedAt: { $lt: idleThreshold },
       });
 
@@ -92,8 +135,24 @@ export class CleanupScheduler {
               preview.previewType === "pull_request" && preview.prNumber
                 ? `PR #${preview.prNumber}`
                 : preview.previewId;
-            logger.info(`Cleaning up idle preview: ${previewLabel}`);
-            await this.previewService.destroyPreview(preview.previewId);
+            const trigger = {
+              type: TriggerType.SYSTEM,
+              event: "idle-cleanup",
+            };
+
+            if (config.idleAction === IdleAction.PAUSE) {
+              logger.info(`Pausing idle preview: ${previewLabel}`);
+              await this.previewService.pausePreview(
+                preview.previewId,
+                trigger
+              );
+            } else {
+              logger.info(`Cleaning up idle preview: ${previewLabel}`);
+              await this.previewService.destroyPreview(
+                preview.previewId,
+                trigger
+              );
+            }
           } catch (error) {
             logger.error(
               `Failed to cleanup idle preview ${preview.previewId}:`,
@@ -176,7 +235,10 @@ export class CleanupScheduler {
 
         for (const preview of oldestPreviews) {
           try {
-            await this.previewService.destroyPreview(preview.previewId);
+            await this.previewService.destroyPreview(preview.previewId, {
+              type: TriggerType.SYSTEM,
+              event: "preview-limit",
+            });
           } catch (error) {
             logger.error(
               `Failed to destroy preview ${preview.previewId}:`,
@@ -191,7 +253,7 @@ export class CleanupScheduler {
   }
 
   /**
-   * Clean up orphan containers (containers not in database)
+   * Clean up orphan containers and preview networks (not in database)
    */
   private async cleanupOrphanContainers(): Promise<void> {
     try {
@@ -201,30 +263,22 @@ export class CleanupScheduler {
         "true"
       );
 
-      if (containers.length === 0) {
-        return;
+      if (containers.length > 0) {
+        logger.info(`Found ${containers.length} PreviewCloud containers`);
       }
 
-      logger.info(`Found ${containers.length} PreviewCloud containers`);
-
       for (const container of containers) {
         try {
-          const prNumber = parseInt(
-            container.Labels["previewcloud.pr"] || "0",
-            10
-          );
+          const previewId = container.Labels["previewcloud.previewId"];
 
-          if (!prNumber) {
-            logger.warn(`Container ${container.Id} has no PR number label`);
+          if (!previewId) {
+            logger.warn(`Container ${container.Id} has no preview ID label`);
             continue;
           }
 
-          // Check if preview exists in database
-          const preview = await Preview.findOne({ prNumber });
-
-          if (!preview || preview.status === PreviewStatus.DESTROYED) {
+          if (await this.isOrphaned(previewId)) {
             logger.info(
-              `Found orphan container for PR #${prNumber}, removing...`
+              `Found orphan container for preview ${previewId}, removing...`
             );
             await this.dockerService.removeContainer(container.Id, true);
           }
@@ -235,11 +289,44 @@ export class CleanupScheduler {
           );
         }
       }
+
+      // Remove the networks of previews that no longer exist
+      const networks = await this.dockerService.listNetworksByLabel(
+        "previewcloud.managed",
+        "true"
+      );
+
+      for (const network of networks) {
+        try {
+          const previewId = network.Labels?.["previewcloud.previewId"];
+
+          if (previewId && (await this.isOrphaned(previewId))) {
+            logger.info(
+              `Found orphan network for preview ${previewId}, removing...`
+            );
+            await this.dockerService.removeNetwork(network.Name);
+          }
+        } catch (error) {
+          logger.error(
+            `Failed to cleanup orphan network ${network.Name}:`,
+            error
+          );
+        }
+      }
     } catch (error) {
       logger.error("Failed to cleanup orphan containers:", error);
     }
   }
 
+  /**
+   * Whether Docker resources of a preview are left over from a preview that
+   * no longer exists or was destroyed
+   */
+  private async isOrphaned(previewId: string): Promise<boolean> {
+    const preview = await Preview.findOne({ previewId });
+    return !preview || preview.status === PreviewStatus.DESTROYED;
+  }
+
   /**
    * Clean up old logs
    */
@@ -254,6 +341,56 @@ export class CleanupScheduler {
     }
   }
 
+  /**
+   * Record the database sizes of running previews, restricting databases
+   * that stay over their plan's quota
+   */
+  private async recordDatabaseSizes(): Promise<void> {
+    try {
+      const previews = await Preview.find({
+        status: PreviewStatus.RUNNING,
+        $or: [
+          { "database.name": { $exists: true } },
+          { "databases.0": { $exists: true } },
+        ],
+      });
+
+      for (const preview of previews) {
+        try {
+          await this.previewService.recordDatabaseSize(preview.previewId);
+        } catch (error) {
+          logger.error(
+            `Failed to record database size of ${preview.previewId}:`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to record database sizes:", error);
+    }
+  }
+
+  /**
+   * Record the sizes of preview volumes, which count toward their owner's
+   * storage quota
+   */
+  private async recordVolumeSizes(): Promise<void> {
+    try {
+      const previews = await Preview.find({
+        "volumes.0": { $exists: true },
+      }).select("previewId");
+      if (previews.length === 0) return;
+
+      // One disk usage scan for all previews
+      const sizes = await this.dockerService.getVolumeSizes();
+      for (const preview of previews) {
+        await this.previewService.recordVolumeSizes(preview.previewId, sizes);
+      }
+    } catch (error) {
+      logger.error("Failed to record volume sizes:", error);
+    }
+  }
+
   /**
    * Prune Docker resources
    */
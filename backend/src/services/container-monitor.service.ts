@@ -0,0 +1,79 @@
+import { logger } from "../utils/logger";
+import { DockerService } from "./docker.service";
+import { PreviewService } from "./preview.service";
+
+const RECONNECT_DELAY_MS = 10000;
+
+export class ContainerMonitor {
+  private dockerService: DockerService;
+  private previewService: PreviewService;
+  private stream: NodeJS.ReadableStream | null = null;
+  private stopped = false;
+
+  constructor() {
+    this.dockerService = new DockerService();
+    this.previewService = new PreviewService();
+  }
+
+  /**
+   * Start watching preview containers for OOM kills
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.connect();
+    logger.info("Container monitor started");
+  }
+
+  /**
+   * Stop watching container events
+   */
+  stop(): void {
+    this.stopped = true;
+    const stream = this.stream as NodeJS.ReadableStream & {
+      destroy?: () => void;
+    };
+    this.stream = null;
+    stream?.destroy?.();
+    logger.info("Container monitor stopped");
+  }
+
+  /**
+   * Subscribe to Docker events, reconnecting when the stream ends
+   */
+  private async connect(): Promise<void> {
+    try {
+      const stream = await this.dockerService.watchContainerEvents(
+        ["oom"],
+        (containerId) => {
+          this.previewService.recordOomKill(containerId).catch((error) => {
+            logger.error(
+              `Failed to record OOM kill of container ${containerId}:`,
+              error
+            );
+          });
+        }
+      );
+
+      this.stream = stream;
+      const reconnect = () => {
+        // Only the current stream may trigger a reconnect, once
+        if (this.stream !== stream) return;
+        this.stream = null;
+        this.scheduleReconnect();
+      };
+      stream.on("end", reconnect);
+      stream.on("error", (error: Error) => {
+        logger.error("Docker event stream error:", error);
+        reconnect();
+      });
+    } catch (error) {
+      logger.error("Failed to watch Docker events:", error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) return;
+    setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+  }
+}
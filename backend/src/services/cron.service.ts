@@ -0,0 +1,130 @@
+import cron from "node-cron";
+import { Preview } from "../models/Preview.model";
+import { PreviewStatus } from "../types/preview.types";
+import { logger } from "../utils/logger";
+import { PreviewService } from "./preview.service";
+
+interface CronJobTask {
+  schedule: string;
+  task: cron.ScheduledTask;
+}
+
+export class CronScheduler {
+  private previewService: PreviewService;
+  private syncTask: cron.ScheduledTask | null = null;
+  // Scheduled runs of the cron services of running previews, by
+  // previewId/service name
+  private jobTasks = new Map<string, CronJobTask>();
+
+  constructor() {
+    this.previewService = new PreviewService();
+  }
+
+  /**
+   * Start the cron scheduler, which picks up the cron services of running
+   * previews every minute
+   */
+  start(): void {
+    this.syncTask = cron.schedule("* * * * *", async () => {
+      await this.syncJobs();
+    });
+    this.syncJobs();
+
+    logger.info("Cron scheduler started");
+  }
+
+  /**
+   * Stop the cron scheduler
+   */
+  stop(): void {
+    if (this.syncTask) {
+      this.syncTask.stop();
+      for (const key of [...this.jobTasks.keys()]) {
+        this.unscheduleJob(key);
+      }
+      logger.info("Cron scheduler stopped");
+    }
+  }
+
+  /**
+   * Schedule the cron services of running previews, and unschedule those
+   * of previews that stopped running or dropped them. Every backend
+   * instance schedules them; the first one to claim a run starts it.
+   */
+  private async syncJobs(): Promise<void> {
+    try {
+      const previews = await Preview.find({
+        status: PreviewStatus.RUNNING,
+        "cronJobs.0": { $exists: true },
+      }).select("previewId cronJobs");
+
+      const keys = new Set<string>();
+      for (const preview of previews) {
+        for (const job of preview.cronJobs) {
+          const key = `${preview.previewId}/${job.name}`;
+          keys.add(key);
+
+          const scheduled = this.jobTasks.get(key);
+          if (scheduled?.schedule === job.schedule) {
+            continue;
+          }
+          if (scheduled) {
+            this.unscheduleJob(key);
+          }
+          this.scheduleJob(key, preview.previewId, job.name, job.schedule);
+        }
+      }
+
+      for (const key of [...this.jobTasks.keys()]) {
+        if (!keys.has(key)) {
+          this.unscheduleJob(key);
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to schedule cron services:", error);
+    }
+  }
+
+  /**
+   * Start the runs of a cron service on its schedule, in UTC
+   */
+  private scheduleJob(
+    key: string,
+    previewId: string,
+    name: string,
+    schedule: string
+  ): void {
+    const task = cron.schedule(
+      schedule,
+      () => {
+        const scheduledAt = new Date();
+        scheduledAt.setUTCSeconds(0, 0);
+
+        // Runs may take longer than a minute, so they are not awaited
+        this.previewService
+          .runCronJob(previewId, name, scheduledAt)
+          .catch((error) => {
+            logger.error(
+              `Failed to run cron service ${name} of ${previewId}:`,
+              error
+            );
+          });
+      },
+      { name: `previewcloud:${key}`, timezone: "Etc/UTC" }
+    );
+    this.jobTasks.set(key, { schedule, task });
+  }
+
+  /**
+   * Stop the runs of a cron service
+   */
+  private unscheduleJob(key: string): void {
+    const scheduled = this.jobTasks.get(key);
+    if (!scheduled) return;
+
+    scheduled.task.stop();
+    // node-cron keeps every task it created unless it is removed
+    cron.getTasks().delete(`previewcloud:${key}`);
+    this.jobTasks.delete(key);
+  }
+}
@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import { config } from "../../config/env";
+import { DatabaseType, HealthCheckConfig } from "../../types/preview.types";
+import {
+  generateContainerName,
+  generateNetworkName,
+} from "../../utils/helpers";
+import { logger } from "../../utils/logger";
+import { DockerService } from "../docker.service";
+import { HealthCheckService } from "../health-check.service";
+import { DatabaseServer } from "./provisioner.interface";
+
+/**
+ * A preview's own database server container
+ */
+export interface DedicatedDatabaseServer extends DatabaseServer {
+  containerId: string;
+  image: string;
+}
+
+interface ServerImage {
+  image: string;
+  defaultVersion: string;
+  port: number;
+  user: string;
+  getEnv(password: string): Record<string, string>;
+  // Probes TCP on the container's own address, so the temporary server the
+  // images start while initializing does not count as ready
+  healthcheck: HealthCheckConfig;
+}
+
+// Redis and SQLite databases have no dedicated mode
+const SERVER_IMAGES: Partial<Record<DatabaseType, ServerImage>> = {
+  [DatabaseType.POSTGRES]: {
+    image: "postgres",
+    defaultVersion: "16",
+    port: 5432,
+    user: "postgres",
+    getEnv: (password) => ({ POSTGRES_PASSWORD: password }),
+    healthcheck: {
+      command: 'pg_isready -q -h "$HOSTNAME" -U postgres',
+      timeout: 180,
+    },
+  },
+  [DatabaseType.MYSQL]: {
+    image: "mysql",
+    defaultVersion: "8",
+    port: 3306,
+    user: "root",
+    getEnv: (password) => ({ MYSQL_ROOT_PASSWORD: password }),
+    healthcheck: {
+      command:
+        'mysqladmin ping -h "$HOSTNAME" -uroot -p"$MYSQL_ROOT_PASSWORD" --silent',
+      timeout: 180,
+    },
+  },
+  [DatabaseType.MONGODB]: {
+    image: "mongo",
+    defaultVersion: "7",
+    port: 27017,
+    user: "admin",
+    getEnv: (password) => ({
+      MONGO_INITDB_ROOT_USERNAME: "admin",
+      MONGO_INITDB_ROOT_PASSWORD: password,
+    }),
+    healthcheck: {
+      // mongosh replaced the mongo shell in MongoDB 6
+      command:
+        '$(command -v mongosh || command -v mongo) --quiet --host "$HOSTNAME" --eval \'db.adminCommand("ping")\'',
+      timeout: 180,
+    },
+  },
+};
+
+/**
+ * Runs a throwaway database server per preview, for databases in dedicated
+ * mode. The server joins the preview network, where the preview's services
+ * connect to it, and the dedicated database network, where the backend
+ * provisions and migrates it. Both resolve the container name.
+ */
+export class DedicatedDatabaseService {
+  private dockerService: DockerService;
+  private healthCheckService: HealthCheckService;
+
+  constructor() {
+    this.dockerService = new DockerService();
+    this.healthCheckService = new HealthCheckService();
+  }
+
+  /**
+   * Start a database server container for a preview and wait until it
+   * accepts connections
+   */
+  async createServer(
+    previewId: string,
+    type: DatabaseType,
+    version?: string,
+    key?: string
+  ): Promise<DedicatedDatabaseServer> {
+    const settings = getServerImage(type);
+    const image = `${settings.image}:${version || settings.defaultVersion}`;
+    const password = crypto.randomBytes(16).toString("hex");
+    const name = generateContainerName(
+      previewId,
+      key ? `database-${key}` : "database"
+    );
+
+    await this.dockerService.pullImage(image);
+
+    const containerId = await this.dockerService.createContainer({
+      name,
+      image,
+      env: settings.getEnv(password),
+      labels: {
+        "previewcloud.managed": "true",
+        "previewcloud.previewId": previewId,
+        "previewcloud.database": type,
+      },
+      networks: [
+        generateNetworkName(previewId),
+        config.dedicatedDatabaseNetwork,
+      ],
+    });
+
+    try {
+      await this.startServer(containerId, type);
+    } catch (error) {
+      await this.dockerService
+        .removeContainer(containerId, true)
+        .catch(() => undefined);
+      throw error;
+    }
+
+    logger.info(`Dedicated ${type} server started for preview ${previewId}`);
+    return {
+      containerId,
+      image,
+      host: name,
+      port: settings.port,
+      user: settings.user,
+      password,
+    };
+  }
+
+  /**
+   * Admin connection to a running database server container
+   */
+  async getServer(
+    containerId: string,
+    type: DatabaseType,
+    password: string
+  ): Promise<DatabaseServer> {
+    const settings = getServerImage(type);
+    return {
+      host: await this.dockerService.getContainerIp(
+        containerId,
+        config.dedicatedDatabaseNetwork
+      ),
+      port: settings.port,
+      user: settings.user,
+      password,
+    };
+  }
+
+  /**
+   * Start a stopped database server container and wait until it is ready
+   */
+  async startServer(containerId: string, type: DatabaseType): Promise<void> {
+    const settings = getServerImage(type);
+    await this.dockerService.startContainer(containerId);
+    await this.healthCheckService.waitForHealthy(
+      containerId,
+      settings.healthcheck,
+      settings.port
+    );
+  }
+
+  /**
+   * Remove a database server container together with its data
+   */
+  async removeServer(containerId: string): Promise<void> {
+    await this.dockerService.removeContainer(containerId, true);
+    logger.info(`Dedicated database server removed: ${containerId}`);
+  }
+}
+
+function getServerImage(type: DatabaseType): ServerImage {
+  const settings = SERVER_IMAGES[type];
+  if (!settings) {
+    throw new Error(`Dedicated ${type} servers are not supported`);
+  }
+  return settings;
+}
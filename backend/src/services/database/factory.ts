@@ -2,7 +2,9 @@ import { DatabaseType } from "../../types/preview.types";
 import { MongoDBProvisioner } from "./mongodb.provisioner";
 import { MySQLProvisioner } from "./mysql.provisioner";
 import { PostgresProvisioner } from "./postgres.provisioner";
-import { IDBProvisioner } from "./provisioner.interface";
+import { DatabaseServer, IDBProvisioner } from "./provisioner.interface";
+import { RedisProvisioner } from "./redis.provisioner";
+import { SqliteProvisioner } from "./sqlite.provisioner";
 
 /**
  * Factory to get the appropriate database provisioner
@@ -17,32 +19,42 @@ export class DBProvisionerFactory {
     }
 
     // Create new provisioner
-    let provisioner: IDBProvisioner;
+    const provisioner = this.createProvisioner(type);
 
+    // Cache provisioner
+    this.provisioners.set(type, provisioner);
+    return provisioner;
+  }
+
+  /**
+   * Create an uncached provisioner, for the shared server of its type or for
+   * another server such as a preview's dedicated database container. The
+   * caller closes it when done.
+   */
+  static createProvisioner(
+    type: DatabaseType,
+    server?: DatabaseServer
+  ): IDBProvisioner {
     switch (type) {
       case DatabaseType.POSTGRES:
-        provisioner = new PostgresProvisioner();
-        break;
+        return new PostgresProvisioner(server);
       case DatabaseType.MYSQL:
-        provisioner = new MySQLProvisioner();
-        break;
+        return new MySQLProvisioner(server);
       case DatabaseType.MONGODB:
-        provisioner = new MongoDBProvisioner();
-        break;
+        return new MongoDBProvisioner(server);
+      case DatabaseType.REDIS:
+        return new RedisProvisioner(server);
+      case DatabaseType.SQLITE:
+        // Files on the backend; there is no server
+        return new SqliteProvisioner();
       default:
         throw new Error(`Unsupported database type: ${type}`);
     }
-
-    // Cache provisioner
-    this.provisioners.set(type, provisioner);
-    return provisioner;
   }
 
   static async closeAll(): Promise<void> {
     for (const provisioner of this.provisioners.values()) {
-      if ("close" in provisioner && typeof provisioner.close === "function") {
-        await (provisioner as any).close();
-      }
+      await provisioner.close();
     }
     this.provisioners.clear();
   }
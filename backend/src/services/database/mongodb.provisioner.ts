@@ -1,43 +1,84 @@
+import crypto from "crypto";
 import * as fs from "fs";
 import { MongoClient } from "mongodb";
 import * as path from "path";
 import { config } from "../../config/env";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+import { generateDatabaseUser } from "../../utils/helpers";
 import { logger } from "../../utils/logger";
-import { IDBProvisioner } from "./provisioner.interface";
+import {
+  DatabaseServer,
+  IDBProvisioner,
+  ProvisionedDatabase,
+} from "./provisioner.interface";
+import {
+  limitQueryResult,
+  listDataFiles,
+  MIGRATIONS_TABLE,
+  runDatabaseTool,
+} from "./tools";
 
 export class MongoDBProvisioner implements IDBProvisioner {
   private client: MongoClient;
   private adminUri: string;
 
-  constructor() {
+  constructor(
+    private server: DatabaseServer = {
+      host: config.mongodbHost,
+      port: config.mongodbPort,
+      user: config.mongodbAdminUser,
+      password: config.mongodbAdminPassword,
+    }
+  ) {
     // Build admin connection string
-    if (config.mongodbAdminUser && config.mongodbAdminPassword) {
-      this.adminUri = `mongodb://${config.mongodbAdminUser}:${config.mongodbAdminPassword}@${config.mongodbHost}:${config.mongodbPort}/admin`;
+    if (server.user && server.password) {
+      this.adminUri = `mongodb://${server.user}:${server.password}@${server.host}:${server.port}/admin`;
     } else {
-      this.adminUri = `mongodb://${config.mongodbHost}:${config.mongodbPort}`;
+      this.adminUri = `mongodb://${server.host}:${server.port}`;
     }
 
     this.client = new MongoClient(this.adminUri);
   }
 
-  async createDatabase(_previewId: string, dbName: string): Promise<string> {
+  async createDatabase(
+    databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase> {
     try {
       await this.client.connect();
 
       // Check if database already exists
       const exists = await this.databaseExists(dbName);
+      const db = this.client.db(dbName);
       if (exists) {
         logger.info(`MongoDB database ${dbName} already exists`);
-        return this.getConnectionString(dbName);
+      } else {
+        // MongoDB creates database automatically when you insert data
+        // So we just create a dummy collection to initialize it
+        await db.createCollection("_init");
+        logger.info(`MongoDB database created: ${dbName}`);
       }
 
-      // MongoDB creates database automatically when you insert data
-      // So we just create a dummy collection to initialize it
-      const db = this.client.db(dbName);
-      await db.createCollection("_init");
-      logger.info(`MongoDB database created: ${dbName}`);
+      // Create the user in the preview database, or give it a new password
+      // if it already exists; it can only access this database
+      const user = generateDatabaseUser(databaseId);
+      const password = crypto.randomBytes(16).toString("hex");
+      const info = await db.command({ usersInfo: user });
+      await db.command({
+        [info.users.length > 0 ? "updateUser" : "createUser"]: user,
+        pwd: password,
+        roles: [{ role: "dbOwner", db: dbName }],
+      });
 
-      return this.getConnectionString(dbName);
+      return {
+        user,
+        password,
+        connectionString: this.getConnectionString(dbName, user, password),
+      };
     } catch (error) {
       logger.error(`Failed to create MongoDB database ${dbName}:`, error);
       throw error;
@@ -49,7 +90,7 @@ export class MongoDBProvisioner implements IDBProvisioner {
   async runMigrations(
     connectionString: string,
     migrationsPath: string
-  ): Promise<void> {
+  ): Promise<string[]> {
     try {
       logger.info(`Running MongoDB migrations from ${migrationsPath}`);
 
@@ -60,12 +101,23 @@ export class MongoDBProvisioner implements IDBProvisioner {
         // Read migration files
         if (!fs.existsSync(migrationsPath)) {
           logger.warn(`Migrations path not found: ${migrationsPath}`);
-          return;
+          return [];
         }
 
+        const migrations = client
+          .db()
+          .collection<{ _id: string; appliedAt: Date }>(MIGRATIONS_TABLE);
+        const applied = new Set(
+          (await migrations.find({}, { projection: { _id: 1 } }).toArray()).map(
+            (doc) => doc._id
+          )
+        );
+
         const files = fs
           .readdirSync(migrationsPath)
-          .filter((f) => f.endsWith(".js") || f.endsWith(".json"))
+          .filter(
+            (f) => (f.endsWith(".js") || f.endsWith(".json")) && !applied.has(f)
+          )
           .sort();
 
         for (const file of files) {
@@ -88,9 +140,12 @@ export class MongoDBProvisioner implements IDBProvisioner {
                 .insertMany(data.documents);
             }
           }
+
+          await migrations.insertOne({ _id: file, appliedAt: new Date() });
         }
 
         logger.info("MongoDB migrations completed successfully");
+        return files;
       } finally {
         await client.close();
       }
@@ -100,10 +155,211 @@ export class MongoDBProvisioner implements IDBProvisioner {
     }
   }
 
-  async destroyDatabase(_previewId: string, dbName: string): Promise<void> {
+  async seedDatabase(
+    connectionString: string,
+    seedPath: string
+  ): Promise<void> {
+    try {
+      logger.info(`Seeding MongoDB database from ${seedPath}`);
+
+      const files = listDataFiles(seedPath, [".js", ".json", ".archive"]);
+      for (const file of files) {
+        logger.info(`Loading seed file: ${path.basename(file)}`);
+
+        // mongodump archives are restored, scripts and documents loaded
+        if (file.endsWith(".archive")) {
+          await this.restoreSnapshot(connectionString, file);
+          continue;
+        }
+
+        const client = new MongoClient(connectionString);
+        await client.connect();
+        try {
+          if (file.endsWith(".js")) {
+            // Seed scripts export seed(db), or up(db) like migrations
+            const script = require(path.resolve(file));
+            const seed = script.seed || script.up;
+            if (typeof seed === "function") {
+              await seed(client.db());
+            }
+          } else {
+            const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+            if (data.collection && data.documents) {
+              await client
+                .db()
+                .collection(data.collection)
+                .insertMany(data.documents);
+            }
+          }
+        } finally {
+          await client.close();
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to seed MongoDB database:", error);
+      throw error;
+    }
+  }
+
+  async createSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    await runDatabaseTool("mongodump", [
+      `--uri=${connectionString}`,
+      `--archive=${snapshotPath}`,
+      "--gzip",
+    ]);
+    logger.info(`MongoDB snapshot created: ${snapshotPath}`);
+  }
+
+  async restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    // Snapshots come from other databases; restore into this one. A
+    // database in the URI would restrict the restore to its own name.
+    const url = new URL(connectionString);
+    const dbName = url.pathname.slice(1);
+    url.pathname = "/";
+    url.searchParams.set("authSource", dbName);
+
+    await runDatabaseTool("mongorestore", [
+      `--uri=${url.toString()}`,
+      `--archive=${snapshotPath}`,
+      "--gzip",
+      "--nsFrom=$db$.$collection$",
+      `--nsTo=${dbName}.$collection$`,
+    ]);
+    logger.info(`MongoDB snapshot restored: ${snapshotPath}`);
+  }
+
+  async getSchema(connectionString: string): Promise<DatabaseSchema> {
+    const client = new MongoClient(connectionString);
+    await client.connect();
+
+    try {
+      const schema: DatabaseSchema = { tables: {} };
+      const collections = await client
+        .db()
+        .listCollections({ type: "collection" }, { nameOnly: true })
+        .toArray();
+
+      for (const { name } of collections) {
+        if (name === MIGRATIONS_TABLE || name.startsWith("system.")) continue;
+
+        // Documents have no fixed columns; indexes are the schema
+        const indexes: Record<string, string> = {};
+        for (const index of await client.db().collection(name).indexes()) {
+          indexes[index.name!] =
+            `${index.unique ? "unique " : ""}${JSON.stringify(index.key)}`;
+        }
+        schema.tables[name] = { columns: {}, indexes };
+      }
+
+      return schema;
+    } finally {
+      await client.close();
+    }
+  }
+
+  async runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult> {
+    if (!query.collection) {
+      throw new Error("MongoDB queries need a collection");
+    }
+
+    // The only aggregation stages that write
+    const writes = query.pipeline?.some(
+      (stage) => "$out" in stage || "$merge" in stage
+    );
+    if (writes) {
+      throw new Error("$out and $merge stages are not allowed");
+    }
+
+    const client = new MongoClient(connectionString);
+    await client.connect();
+
+    try {
+      const collection = client.db().collection(query.collection);
+      const documents = query.pipeline
+        ? await collection
+            .aggregate([...query.pipeline, { $limit: limit + 1 }], {
+              maxTimeMS: timeoutMs,
+            })
+            .toArray()
+        : await collection
+            .find(query.filter || {})
+            .limit(limit + 1)
+            .maxTimeMS(timeoutMs)
+            .toArray();
+
+      const fields = new Set<string>();
+      for (const document of documents) {
+        Object.keys(document).forEach((key) => fields.add(key));
+      }
+      return limitQueryResult(Array.from(fields), documents, limit);
+    } finally {
+      await client.close();
+    }
+  }
+
+  async getDatabaseSize(connectionString: string): Promise<number> {
+    const client = new MongoClient(connectionString);
+    await client.connect();
+
+    try {
+      const stats = await client.db().stats();
+      return stats.storageSize + stats.indexSize;
+    } finally {
+      await client.close();
+    }
+  }
+
+  async setReadOnly(
+    databaseId: string,
+    dbName: string,
+    readOnly: boolean
+  ): Promise<void> {
     try {
       await this.client.connect();
-      await this.client.db(dbName).dropDatabase();
+
+      // Role changes apply to the user's open connections as well
+      await this.client.db(dbName).command({
+        updateUser: generateDatabaseUser(databaseId),
+        roles: [{ role: readOnly ? "read" : "dbOwner", db: dbName }],
+      });
+      logger.info(
+        `MongoDB database ${dbName} ${readOnly ? "restricted to reads" : "writable again"}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to change access to MongoDB database ${dbName}:`,
+        error
+      );
+      throw error;
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  async destroyDatabase(databaseId: string, dbName: string): Promise<void> {
+    try {
+      await this.client.connect();
+      const db = this.client.db(dbName);
+
+      // Users are not dropped with their database
+      const user = generateDatabaseUser(databaseId);
+      const info = await db.command({ usersInfo: user });
+      if (info.users.length > 0) {
+        await db.command({ dropUser: user });
+      }
+
+      await db.dropDatabase();
       logger.info(`MongoDB database destroyed: ${dbName}`);
     } catch (error) {
       logger.error(`Failed to destroy MongoDB database ${dbName}:`, error);
@@ -127,12 +383,9 @@ export class MongoDBProvisioner implements IDBProvisioner {
     }
   }
 
-  getConnectionString(dbName: string): string {
-    if (config.mongodbAdminUser && config.mongodbAdminPassword) {
-      return `mongodb://${config.mongodbAdminUser}:${config.mongodbAdminPassword}@${config.mongodbHost}:${config.mongodbPort}/${dbName}`;
-    }
-
-    return `mongodb://${config.mongodbHost}:${config.mongodbPort}/${dbName}`;
+  getConnectionString(dbName: string, user: string, password: string): string {
+    // The user is defined in the preview database itself
+    return `mongodb://${user}:${password}@${this.server.host}:${this.server.port}/${dbName}`;
   }
 
   async close(): Promise<void> {
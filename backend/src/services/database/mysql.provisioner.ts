@@ -1,39 +1,86 @@
+import crypto from "crypto";
 import * as fs from "fs";
 import mysql from "mysql2/promise";
 import * as path from "path";
 import { config } from "../../config/env";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+import { generateDatabaseUser } from "../../utils/helpers";
 import { logger } from "../../utils/logger";
-import { IDBProvisioner } from "./provisioner.interface";
+import {
+  DatabaseServer,
+  IDBProvisioner,
+  ProvisionedDatabase,
+} from "./provisioner.interface";
+import {
+  limitQueryResult,
+  listDataFiles,
+  MIGRATIONS_TABLE,
+  runDatabaseTool,
+  toLimitedQuery,
+} from "./tools";
 
 export class MySQLProvisioner implements IDBProvisioner {
   private pool: mysql.Pool;
 
-  constructor() {
-    this.pool = mysql.createPool({
+  constructor(
+    private server: DatabaseServer = {
       host: config.mysqlHost,
       port: config.mysqlPort,
       user: config.mysqlAdminUser,
       password: config.mysqlAdminPassword,
+    }
+  ) {
+    this.pool = mysql.createPool({
+      host: server.host,
+      port: server.port,
+      user: server.user,
+      password: server.password,
       waitForConnections: true,
       connectionLimit: 10,
       queueLimit: 0,
     });
   }
 
-  async createDatabase(_previewId: string, dbName: string): Promise<string> {
+  async createDatabase(
+    databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase> {
     try {
       // Check if database already exists
       const exists = await this.databaseExists(dbName);
       if (exists) {
         logger.info(`MySQL database ${dbName} already exists`);
-        return this.getConnectionString(dbName);
+      } else {
+        await this.pool.query(`CREATE DATABASE \`${dbName}\``);
+        logger.info(`MySQL database created: ${dbName}`);
       }
 
-      // Create database
-      await this.pool.query(`CREATE DATABASE \`${dbName}\``);
-      logger.info(`MySQL database created: ${dbName}`);
+      // Create the user, or give it a new password if it already exists,
+      // with privileges on this database only
+      const user = generateDatabaseUser(databaseId);
+      const password = crypto.randomBytes(16).toString("hex");
+      await this.pool.query(`CREATE USER IF NOT EXISTS ?@'%' IDENTIFIED BY ?`, [
+        user,
+        password,
+      ]);
+      await this.pool.query(`ALTER USER ?@'%' IDENTIFIED BY ?`, [
+        user,
+        password,
+      ]);
+      await this.pool.query(
+        `GRANT ALL PRIVILEGES ON \`${dbName}\`.* TO ?@'%'`,
+        [user]
+      );
 
-      return this.getConnectionString(dbName);
+      return {
+        user,
+        password,
+        connectionString: this.getConnectionString(dbName, user, password),
+      };
     } catch (error) {
       logger.error(`Failed to create MySQL database ${dbName}:`, error);
       throw error;
@@ -43,7 +90,7 @@ export class MySQLProvisioner implements IDBProvisioner {
   async runMigrations(
     connectionString: string,
     migrationsPath: string
-  ): Promise<void> {
+  ): Promise<string[]> {
     try {
       logger.info(`Running MySQL migrations from ${migrationsPath}`);
 
@@ -54,12 +101,20 @@ export class MySQLProvisioner implements IDBProvisioner {
         // Read migration files
         if (!fs.existsSync(migrationsPath)) {
           logger.warn(`Migrations path not found: ${migrationsPath}`);
-          return;
+          return [];
         }
 
+        await connection.query(
+          `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (name VARCHAR(255) PRIMARY KEY, applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP)`
+        );
+        const [rows] = await connection.query<mysql.RowDataPacket[]>(
+          `SELECT name FROM ${MIGRATIONS_TABLE}`
+        );
+        const applied = new Set(rows.map((row) => row.name));
+
         const files = fs
           .readdirSync(migrationsPath)
-          .filter((f) => f.endsWith(".sql"))
+          .filter((f) => f.endsWith(".sql") && !applied.has(f))
           .sort();
 
         for (const file of files) {
@@ -77,9 +132,17 @@ export class MySQLProvisioner implements IDBProvisioner {
           for (const statement of statements) {
             await connection.query(statement);
           }
+
+          // DDL commits implicitly in MySQL, so this cannot share a
+          // transaction with the migration
+          await connection.query(
+            `INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (?)`,
+            [file]
+          );
         }
 
         logger.info("MySQL migrations completed successfully");
+        return files;
       } finally {
         await connection.end();
       }
@@ -89,9 +152,219 @@ export class MySQLProvisioner implements IDBProvisioner {
     }
   }
 
-  async destroyDatabase(_previewId: string, dbName: string): Promise<void> {
+  async seedDatabase(
+    connectionString: string,
+    seedPath: string
+  ): Promise<void> {
+    try {
+      logger.info(`Seeding MySQL database from ${seedPath}`);
+
+      // Seed files may be full dumps, so they are loaded by the mysql client
+      for (const file of listDataFiles(seedPath, [".sql"])) {
+        logger.info(`Loading seed file: ${path.basename(file)}`);
+        await this.restoreSnapshot(connectionString, file);
+      }
+    } catch (error) {
+      logger.error("Failed to seed MySQL database:", error);
+      throw error;
+    }
+  }
+
+  async createSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const { args, env, database } = this.getToolOptions(connectionString);
+    await runDatabaseTool(
+      "mysqldump",
+      [
+        ...args,
+        "--single-transaction",
+        "--no-tablespaces",
+        `--result-file=${snapshotPath}`,
+        database,
+      ],
+      env
+    );
+    logger.info(`MySQL snapshot created: ${snapshotPath}`);
+  }
+
+  async restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const { args, env, database } = this.getToolOptions(connectionString);
+    await runDatabaseTool(
+      "mysql",
+      [...args, database, "-e", `source ${snapshotPath}`],
+      env
+    );
+    logger.info(`MySQL snapshot restored: ${snapshotPath}`);
+  }
+
+  /**
+   * Arguments of the MySQL client tools for a connection string; the
+   * password is passed through the environment
+   */
+  private getToolOptions(connectionString: string): {
+    args: string[];
+    env: Record<string, string>;
+    database: string;
+  } {
+    const url = new URL(connectionString);
+    return {
+      args: [
+        `--host=${url.hostname}`,
+        `--port=${url.port || "3306"}`,
+        `--user=${decodeURIComponent(url.username)}`,
+      ],
+      env: { MYSQL_PWD: decodeURIComponent(url.password) },
+      database: decodeURIComponent(url.pathname.slice(1)),
+    };
+  }
+
+  async getSchema(connectionString: string): Promise<DatabaseSchema> {
+    const connection = await mysql.createConnection(connectionString);
+
+    try {
+      const schema: DatabaseSchema = { tables: {} };
+      const getTable = (name: string) =>
+        (schema.tables[name] ??= { columns: {}, indexes: {} });
+
+      const [columns] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME AS tableName, COLUMN_NAME AS columnName, COLUMN_TYPE AS columnType,
+                IS_NULLABLE AS isNullable, COLUMN_DEFAULT AS columnDefault
+         FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME <> ?
+         ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+        [MIGRATIONS_TABLE]
+      );
+      for (const row of columns) {
+        let definition: string = row.columnType;
+        if (row.isNullable === "NO") definition += " not null";
+        if (row.columnDefault !== null) {
+          definition += ` default ${row.columnDefault}`;
+        }
+        getTable(row.tableName).columns[row.columnName] = definition;
+      }
+
+      const [indexes] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT TABLE_NAME AS tableName, INDEX_NAME AS indexName, NON_UNIQUE AS nonUnique,
+                GROUP_CONCAT(COLUMN_NAME ORDER BY SEQ_IN_INDEX) AS columnNames
+         FROM information_schema.STATISTICS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME <> ?
+         GROUP BY TABLE_NAME, INDEX_NAME, NON_UNIQUE`,
+        [MIGRATIONS_TABLE]
+      );
+      for (const row of indexes) {
+        getTable(row.tableName).indexes[row.indexName] = `${
+          Number(row.nonUnique) ? "" : "unique "
+        }(${row.columnNames})`;
+      }
+
+      return schema;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  async runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult> {
+    if (!query.sql) {
+      throw new Error("MySQL queries need sql");
+    }
+
+    // Connections run one statement per query unless multipleStatements
+    // is enabled
+    const connection = await mysql.createConnection(connectionString);
+
+    try {
+      await connection.query("SET SESSION MAX_EXECUTION_TIME = ?", [timeoutMs]);
+      await connection.query("START TRANSACTION READ ONLY");
+      const [rows, fields] = await connection.query<mysql.RowDataPacket[]>({
+        sql: toLimitedQuery(query.sql),
+        values: [limit + 1],
+        timeout: timeoutMs,
+      });
+      return limitQueryResult(
+        fields.map((field) => field.name),
+        rows,
+        limit
+      );
+    } finally {
+      await connection.query("ROLLBACK").catch(() => undefined);
+      await connection.end().catch(() => undefined);
+    }
+  }
+
+  async getDatabaseSize(connectionString: string): Promise<number> {
+    const connection = await mysql.createConnection(connectionString);
+
+    try {
+      const [rows] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT COALESCE(SUM(DATA_LENGTH + INDEX_LENGTH), 0) AS size
+         FROM information_schema.TABLES
+         WHERE TABLE_SCHEMA = DATABASE()`
+      );
+      // SUM returns a decimal, which comes back as a string
+      return Number(rows[0].size);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  async setReadOnly(
+    databaseId: string,
+    dbName: string,
+    readOnly: boolean
+  ): Promise<void> {
+    try {
+      const user = generateDatabaseUser(databaseId);
+      if (readOnly) {
+        await this.pool.query(
+          `REVOKE ALL PRIVILEGES ON \`${dbName}\`.* FROM ?@'%'`,
+          [user]
+        );
+        await this.pool.query(`GRANT SELECT ON \`${dbName}\`.* TO ?@'%'`, [
+          user,
+        ]);
+      } else {
+        await this.pool.query(
+          `GRANT ALL PRIVILEGES ON \`${dbName}\`.* TO ?@'%'`,
+          [user]
+        );
+      }
+
+      // Open connections keep the privileges they started with
+      const [connections] = await this.pool.query<mysql.RowDataPacket[]>(
+        `SELECT ID AS id FROM information_schema.PROCESSLIST WHERE USER = ?`,
+        [user]
+      );
+      for (const connection of connections) {
+        await this.pool.query(`KILL ?`, [connection.id]).catch(() => undefined);
+      }
+      logger.info(
+        `MySQL database ${dbName} ${readOnly ? "restricted to reads" : "writable again"}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to change access to MySQL database ${dbName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  async destroyDatabase(databaseId: string, dbName: string): Promise<void> {
     try {
       await this.pool.query(`DROP DATABASE IF EXISTS \`${dbName}\``);
+      await this.pool.query(`DROP USER IF EXISTS ?@'%'`, [
+        generateDatabaseUser(databaseId),
+      ]);
       logger.info(`MySQL database destroyed: ${dbName}`);
     } catch (error) {
       logger.error(`Failed to destroy MySQL database ${dbName}:`, error);
@@ -112,8 +385,8 @@ export class MySQLProvisioner implements IDBProvisioner {
     }
   }
 
-  getConnectionString(dbName: string): string {
-    return `mysql://${config.mysqlAdminUser}:${config.mysqlAdminPassword}@${config.mysqlHost}:${config.mysqlPort}/${dbName}`;
+  getConnectionString(dbName: string, user: string, password: string): string {
+    return `mysql://${user}:${password}@${this.server.host}:${this.server.port}/${dbName}`;
   }
 
   async close(): Promise<void> {
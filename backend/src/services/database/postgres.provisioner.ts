@@ -1,37 +1,86 @@
+import crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import { Client, Pool } from "pg";
 import { config } from "../../config/env";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+import { generateDatabaseUser } from "../../utils/helpers";
 import { logger } from "../../utils/logger";
-import { IDBProvisioner } from "./provisioner.interface";
+import {
+  DatabaseServer,
+  IDBProvisioner,
+  ProvisionedDatabase,
+} from "./provisioner.interface";
+import {
+  limitQueryResult,
+  listDataFiles,
+  MIGRATIONS_TABLE,
+  runDatabaseTool,
+  toLimitedQuery,
+} from "./tools";
 
 export class PostgresProvisioner implements IDBProvisioner {
   private pool: Pool;
 
-  constructor() {
-    this.pool = new Pool({
+  constructor(
+    private server: DatabaseServer = {
       host: config.postgresHost,
       port: config.postgresPort,
       user: config.postgresAdminUser,
       password: config.postgresAdminPassword,
+    }
+  ) {
+    this.pool = new Pool({
+      host: server.host,
+      port: server.port,
+      user: server.user,
+      password: server.password,
       database: "postgres",
     });
   }
 
-  async createDatabase(_previewId: string, dbName: string): Promise<string> {
+  async createDatabase(
+    databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase> {
     try {
+      const user = generateDatabaseUser(databaseId);
+      const password = crypto.randomBytes(16).toString("hex");
+
+      // Create the user, or give it a new password if it already exists
+      const role = await this.pool.query(
+        `SELECT 1 FROM pg_roles WHERE rolname = $1`,
+        [user]
+      );
+      const action = role.rowCount! > 0 ? "ALTER" : "CREATE";
+      await this.pool.query(
+        `${action} ROLE "${user}" LOGIN PASSWORD '${password}'`
+      );
+
       // Check if database already exists
       const exists = await this.databaseExists(dbName);
       if (exists) {
         logger.info(`PostgreSQL database ${dbName} already exists`);
-        return this.getConnectionString(dbName);
+      } else {
+        await this.pool.query(`CREATE DATABASE "${dbName}"`);
+        logger.info(`PostgreSQL database created: ${dbName}`);
       }
 
-      // Create database
-      await this.pool.query(`CREATE DATABASE "${dbName}"`);
-      logger.info(`PostgreSQL database created: ${dbName}`);
+      // The user owns the database; other preview users cannot connect
+      await this.pool.query(`ALTER DATABASE "${dbName}" OWNER TO "${user}"`);
+      await this.pool.query(
+        `REVOKE CONNECT, TEMPORARY ON DATABASE "${dbName}" FROM PUBLIC`
+      );
 
-      return this.getConnectionString(dbName);
+      return {
+        user,
+        password,
+        connectionString: this.getConnectionString(dbName, user, password),
+      };
     } catch (error) {
       logger.error(`Failed to create PostgreSQL database ${dbName}:`, error);
       throw error;
@@ -41,7 +90,7 @@ export class PostgresProvisioner implements IDBProvisioner {
   async runMigrations(
     connectionString: string,
     migrationsPath: string
-  ): Promise<void> {
+  ): Promise<string[]> {
     try {
       logger.info(`Running PostgreSQL migrations from ${migrationsPath}`);
 
@@ -53,12 +102,20 @@ export class PostgresProvisioner implements IDBProvisioner {
         // Read migration files
         if (!fs.existsSync(migrationsPath)) {
           logger.warn(`Migrations path not found: ${migrationsPath}`);
-          return;
+          return [];
         }
 
+        await client.query(
+          `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (name TEXT PRIMARY KEY, applied_at TIMESTAMPTZ NOT NULL DEFAULT now())`
+        );
+        const { rows } = await client.query(
+          `SELECT name FROM ${MIGRATIONS_TABLE}`
+        );
+        const applied = new Set(rows.map((row) => row.name));
+
         const files = fs
           .readdirSync(migrationsPath)
-          .filter((f) => f.endsWith(".sql"))
+          .filter((f) => f.endsWith(".sql") && !applied.has(f))
           .sort();
 
         for (const file of files) {
@@ -66,10 +123,24 @@ export class PostgresProvisioner implements IDBProvisioner {
           const sql = fs.readFileSync(filePath, "utf-8");
 
           logger.info(`Executing migration: ${file}`);
-          await client.query(sql);
+
+          // A failed migration leaves neither its changes nor its record
+          await client.query("BEGIN");
+          try {
+            await client.query(sql);
+            await client.query(
+              `INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES ($1)`,
+              [file]
+            );
+            await client.query("COMMIT");
+          } catch (error) {
+            await client.query("ROLLBACK");
+            throw error;
+          }
         }
 
         logger.info("PostgreSQL migrations completed successfully");
+        return files;
       } finally {
         await client.end();
       }
@@ -79,7 +150,282 @@ export class PostgresProvisioner implements IDBProvisioner {
     }
   }
 
-  async destroyDatabase(_previewId: string, dbName: string): Promise<void> {
+  async seedDatabase(
+    connectionString: string,
+    seedPath: string
+  ): Promise<void> {
+    try {
+      logger.info(`Seeding PostgreSQL database from ${seedPath}`);
+
+      for (const file of listDataFiles(seedPath, [".sql", ".dump"])) {
+        logger.info(`Loading seed file: ${path.basename(file)}`);
+
+        // pg_dump archives are restored, SQL files executed
+        if (file.endsWith(".dump")) {
+          await this.restoreSnapshot(connectionString, file);
+          continue;
+        }
+
+        const client = new Client({ connectionString });
+        await client.connect();
+        try {
+          await client.query(fs.readFileSync(file, "utf-8"));
+        } finally {
+          await client.end();
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to seed PostgreSQL database:", error);
+      throw error;
+    }
+  }
+
+  async createSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    await runDatabaseTool("pg_dump", [
+      "--format=custom",
+      "--no-owner",
+      "--no-privileges",
+      `--file=${snapshotPath}`,
+      `--dbname=${connectionString}`,
+    ]);
+    logger.info(`PostgreSQL snapshot created: ${snapshotPath}`);
+  }
+
+  async restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    // Objects are owned by the preview's user, not the snapshot's
+    await runDatabaseTool("pg_restore", [
+      "--no-owner",
+      "--no-privileges",
+      `--dbname=${connectionString}`,
+      snapshotPath,
+    ]);
+    logger.info(`PostgreSQL snapshot restored: ${snapshotPath}`);
+  }
+
+  async getSchema(connectionString: string): Promise<DatabaseSchema> {
+    const client = new Client({ connectionString });
+    await client.connect();
+
+    try {
+      const schema: DatabaseSchema = { tables: {} };
+      const getTable = (name: string) =>
+        (schema.tables[name] ??= { columns: {}, indexes: {} });
+
+      const columns = await client.query(
+        `SELECT table_name, column_name, data_type, character_maximum_length, is_nullable, column_default
+         FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name <> $1
+         ORDER BY table_name, ordinal_position`,
+        [MIGRATIONS_TABLE]
+      );
+      for (const row of columns.rows) {
+        let definition = row.character_maximum_length
+          ? `${row.data_type}(${row.character_maximum_length})`
+          : row.data_type;
+        if (row.is_nullable === "NO") definition += " not null";
+        if (row.column_default) definition += ` default ${row.column_default}`;
+        getTable(row.table_name).columns[row.column_name] = definition;
+      }
+
+      const indexes = await client.query(
+        `SELECT tablename, indexname, indexdef FROM pg_indexes
+         WHERE schemaname = current_schema() AND tablename <> $1`,
+        [MIGRATIONS_TABLE]
+      );
+      for (const row of indexes.rows) {
+        getTable(row.tablename).indexes[row.indexname] = row.indexdef;
+      }
+
+      return schema;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult> {
+    if (!query.sql) {
+      throw new Error("PostgreSQL queries need sql");
+    }
+
+    const client = new Client({
+      connectionString,
+      statement_timeout: timeoutMs,
+    });
+    await client.connect();
+
+    try {
+      await client.query("BEGIN TRANSACTION READ ONLY");
+      // Bound parameters use the extended protocol, which refuses to run
+      // more than one statement
+      const result = await client.query(toLimitedQuery(query.sql, "$1"), [
+        limit + 1,
+      ]);
+      return limitQueryResult(
+        result.fields.map((field) => field.name),
+        result.rows,
+        limit
+      );
+    } finally {
+      await client.query("ROLLBACK").catch(() => undefined);
+      await client.end();
+    }
+  }
+
+  async getDatabaseSize(connectionString: string): Promise<number> {
+    const client = new Client({ connectionString });
+    await client.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT pg_database_size(current_database()) AS size`
+      );
+      // bigint comes back as a string
+      return Number(result.rows[0].size);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async setReadOnly(
+    databaseId: string,
+    dbName: string,
+    readOnly: boolean
+  ): Promise<void> {
+    const user = generateDatabaseUser(databaseId);
+    // Owners can always grant themselves writes again, so while restricted
+    // the database and everything in it belong to a role the user is not a
+    // member of, and the user keeps read access only
+    const owner = `${user}_owner`;
+    const client = new Client({
+      host: this.server.host,
+      port: this.server.port,
+      user: this.server.user,
+      password: this.server.password,
+      database: dbName,
+    });
+
+    try {
+      await client.connect();
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `SELECT 1 FROM pg_roles WHERE rolname = $1`,
+        [owner]
+      );
+      const restricted = rows.length > 0;
+
+      if (readOnly && !restricted) {
+        await client.query(`CREATE ROLE "${owner}" NOLOGIN`);
+        await client.query(`REASSIGN OWNED BY "${user}" TO "${owner}"`);
+        await client.query(
+          `GRANT CONNECT ON DATABASE "${dbName}" TO "${user}"`
+        );
+        // Before PostgreSQL 15, everyone may create tables in public
+        await client.query(`REVOKE CREATE ON SCHEMA public FROM PUBLIC`);
+
+        const schemas = await client.query(
+          `SELECT nspname FROM pg_namespace
+           WHERE nspname NOT IN ('pg_catalog', 'information_schema')
+             AND nspname NOT LIKE 'pg\\_%'`
+        );
+        for (const { nspname } of schemas.rows) {
+          await client.query(`GRANT USAGE ON SCHEMA "${nspname}" TO "${user}"`);
+          await client.query(
+            `GRANT SELECT ON ALL TABLES IN SCHEMA "${nspname}" TO "${user}"`
+          );
+          await client.query(
+            `GRANT SELECT ON ALL SEQUENCES IN SCHEMA "${nspname}" TO "${user}"`
+          );
+        }
+
+        await this.checkWritesRefused(client, user);
+      } else if (!readOnly && restricted) {
+        await client.query(`REASSIGN OWNED BY "${owner}" TO "${user}"`);
+        await client.query(`GRANT CREATE ON SCHEMA public TO "${user}"`);
+        await client.query(`DROP OWNED BY "${owner}"`);
+        await client.query(`DROP ROLE "${owner}"`);
+      }
+      if (!readOnly) {
+        // Earlier versions restricted the user through this setting
+        await client.query(
+          `ALTER ROLE "${user}" IN DATABASE "${dbName}" RESET default_transaction_read_only`
+        );
+      }
+
+      await client.query("COMMIT");
+
+      // End open transactions, which started with the old privileges
+      await client.query(
+        `SELECT pg_terminate_backend(pid) FROM pg_stat_activity
+         WHERE datname = $1 AND pid <> pg_backend_pid()`,
+        [dbName]
+      );
+      logger.info(
+        `PostgreSQL database ${dbName} ${readOnly ? "restricted to reads" : "writable again"}`
+      );
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      logger.error(
+        `Failed to change access to PostgreSQL database ${dbName}:`,
+        error
+      );
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * Make sure a restricted user can neither change the existing tables nor
+   * create new ones. Runs in the transaction restricting the user, so a
+   * failed check leaves the database as it was.
+   */
+  private async checkWritesRefused(
+    client: Client,
+    user: string
+  ): Promise<void> {
+    const writable = await client.query(
+      `SELECT n.nspname, c.relname FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p')
+         AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+         AND has_table_privilege($1, c.oid, 'INSERT, UPDATE, DELETE, TRUNCATE')
+       LIMIT 1`,
+      [user]
+    );
+    if (writable.rows.length > 0) {
+      const { nspname, relname } = writable.rows[0];
+      throw new Error(`${user} can still write to ${nspname}.${relname}`);
+    }
+
+    // Try a write as the user; SET LOCAL ends with the savepoint
+    await client.query("SAVEPOINT write_check");
+    try {
+      await client.query(`SET LOCAL ROLE "${user}"`);
+      await client.query(`CREATE TABLE public._previewcloud_write_check ()`);
+    } catch (error) {
+      if ((error as any).code === "42501") {
+        return; // insufficient_privilege
+      }
+      throw error;
+    } finally {
+      await client.query("ROLLBACK TO SAVEPOINT write_check");
+    }
+    throw new Error(`${user} can still create tables`);
+  }
+
+  async destroyDatabase(databaseId: string, dbName: string): Promise<void> {
     try {
       // Terminate active connections
       await this.pool.query(
@@ -92,8 +438,12 @@ export class PostgresProvisioner implements IDBProvisioner {
         [dbName]
       );
 
-      // Drop database
+      // Drop database, then its user, which owns nothing else, and the
+      // owner of a restricted database
+      const user = generateDatabaseUser(databaseId);
       await this.pool.query(`DROP DATABASE IF EXISTS "${dbName}"`);
+      await this.pool.query(`DROP ROLE IF EXISTS "${user}"`);
+      await this.pool.query(`DROP ROLE IF EXISTS "${user}_owner"`);
       logger.info(`PostgreSQL database destroyed: ${dbName}`);
     } catch (error) {
       logger.error(`Failed to destroy PostgreSQL database ${dbName}:`, error);
@@ -114,8 +464,8 @@ export class PostgresProvisioner implements IDBProvisioner {
     }
   }
 
-  getConnectionString(dbName: string): string {
-    return `postgresql://${config.postgresAdminUser}:${config.postgresAdminPassword}@${config.postgresHost}:${config.postgresPort}/${dbName}`;
+  getConnectionString(dbName: string, user: string, password: string): string {
+    return `postgresql://${user}:${password}@${this.server.host}:${this.server.port}/${dbName}`;
   }
 
   async close(): Promise<void> {
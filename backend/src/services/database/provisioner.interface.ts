@@ -1,24 +1,105 @@
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+
+/**
+ * Database server a provisioner creates preview databases on
+ */
+export interface DatabaseServer {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+}
+
+/**
+ * A preview database and the user that owns it
+ */
+export interface ProvisionedDatabase {
+  user: string;
+  password: string;
+  connectionString: string; // Connects as the user
+}
+
 /**
  * Interface for database provisioners
  */
 export interface IDBProvisioner {
   /**
-   * Create a new database for a preview environment
+   * Create a new database for a preview environment, together with a user
+   * with a random password that can only access that database. The user's
+   * name is generated from the database ID (see getDatabaseId).
    */
-  createDatabase(previewId: string, dbName: string): Promise<string>;
+  createDatabase(
+    databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase>;
 
   /**
-   * Run migrations on the database
+   * Run the migration files not yet applied to the database, recording each
+   * in the migrations table. Returns the names of the files applied.
    */
   runMigrations(
     connectionString: string,
     migrationsPath: string
+  ): Promise<string[]>;
+
+  /**
+   * Load seed data from a file or a folder of files
+   */
+  seedDatabase(connectionString: string, seedPath: string): Promise<void>;
+
+  /**
+   * Dump the database into a snapshot file
+   */
+  createSnapshot(connectionString: string, snapshotPath: string): Promise<void>;
+
+  /**
+   * Restore a snapshot file into the database
+   */
+  restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void>;
+
+  /**
+   * Introspect the tables (collections), columns and indexes of the
+   * database, leaving out the migrations table
+   */
+  getSchema(connectionString: string): Promise<DatabaseSchema>;
+
+  /**
+   * Run a console query in a read-only session, returning at most `limit`
+   * rows and aborting after `timeoutMs`
+   */
+  runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult>;
+
+  /**
+   * Size of the database on disk in bytes, including indexes
+   */
+  getDatabaseSize(connectionString: string): Promise<number>;
+
+  /**
+   * Stop or allow writes by the preview's database user, e.g. once the
+   * database exceeds its plan's quota
+   */
+  setReadOnly(
+    databaseId: string,
+    dbName: string,
+    readOnly: boolean
   ): Promise<void>;
 
   /**
-   * Destroy a database
+   * Destroy a database and its user
    */
-  destroyDatabase(previewId: string, dbName: string): Promise<void>;
+  destroyDatabase(databaseId: string, dbName: string): Promise<void>;
 
   /**
    * Check if database exists
@@ -28,5 +109,10 @@ export interface IDBProvisioner {
   /**
    * Get connection string for a preview database
    */
-  getConnectionString(dbName: string): string;
+  getConnectionString(dbName: string, user: string, password: string): string;
+
+  /**
+   * Close the connections to the database server
+   */
+  close(): Promise<void>;
 }
@@ -0,0 +1,508 @@
+import crypto from "crypto";
+import * as fs from "fs";
+import Redis, { RedisOptions } from "ioredis";
+import * as path from "path";
+import { config } from "../../config/env";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+import { generateDatabaseUser } from "../../utils/helpers";
+import { logger } from "../../utils/logger";
+import {
+  DatabaseServer,
+  IDBProvisioner,
+  ProvisionedDatabase,
+} from "./provisioner.interface";
+import { limitQueryResult, listDataFiles, MIGRATIONS_TABLE } from "./tools";
+
+// Commands of a preview's user; keys and channels are limited to its prefix
+const USER_COMMANDS = ["+@all", "-@admin", "-@dangerous"];
+
+// Keys fetched per SCAN call
+const SCAN_COUNT = 500;
+
+// Items shown of a list or sorted set in the console
+const QUERY_VALUE_ITEMS = 100;
+
+/**
+ * Preview databases on a shared Redis server. Each database is a key prefix
+ * with an ACL user that can only access keys and channels under it. The
+ * prefix is passed to applications as the keyPrefix option of the
+ * connection string, which ioredis applies by itself.
+ */
+export class RedisProvisioner implements IDBProvisioner {
+  private client: Redis;
+
+  constructor(
+    private server: DatabaseServer = {
+      host: config.redisHost,
+      port: config.redisPort,
+      user: config.redisAdminUser,
+      password: config.redisAdminPassword,
+    }
+  ) {
+    this.client = new Redis({
+      host: server.host,
+      port: server.port,
+      username: server.user || undefined,
+      password: server.password || undefined,
+      lazyConnect: true,
+    });
+  }
+
+  async createDatabase(
+    databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase> {
+    try {
+      const user = generateDatabaseUser(databaseId);
+      const password = crypto.randomBytes(16).toString("hex");
+      const prefix = getKeyPrefix(dbName);
+
+      // Create the user, or reset it with a new password if it exists
+      await this.client.acl(
+        "SETUSER",
+        user,
+        "reset",
+        "on",
+        `>${password}`,
+        `~${prefix}*`,
+        `&${prefix}*`,
+        ...USER_COMMANDS
+      );
+      await this.saveAcl();
+      logger.info(`Redis database created: ${dbName}`);
+
+      return {
+        user,
+        password,
+        connectionString: this.getConnectionString(dbName, user, password),
+      };
+    } catch (error) {
+      logger.error(`Failed to create Redis database ${dbName}:`, error);
+      throw error;
+    }
+  }
+
+  async runMigrations(
+    connectionString: string,
+    migrationsPath: string
+  ): Promise<string[]> {
+    try {
+      logger.info(`Running Redis migrations from ${migrationsPath}`);
+
+      // Read migration files
+      if (!fs.existsSync(migrationsPath)) {
+        logger.warn(`Migrations path not found: ${migrationsPath}`);
+        return [];
+      }
+
+      const { client, prefix } = openClient(connectionString);
+      try {
+        const migrationsKey = `${prefix}${MIGRATIONS_TABLE}`;
+        const applied = new Set(await client.smembers(migrationsKey));
+
+        const files = fs
+          .readdirSync(migrationsPath)
+          .filter((f) => f.endsWith(".json") && !applied.has(f))
+          .sort();
+
+        for (const file of files) {
+          logger.info(`Executing migration: ${file}`);
+
+          // A failed migration leaves neither its keys nor its record
+          const transaction = client.multi();
+          addDataCommands(
+            transaction,
+            prefix,
+            readDataFile(path.join(migrationsPath, file))
+          );
+          transaction.sadd(migrationsKey, file);
+          await execTransaction(transaction);
+        }
+
+        logger.info("Redis migrations completed successfully");
+        return files;
+      } finally {
+        client.disconnect();
+      }
+    } catch (error) {
+      logger.error("Failed to run Redis migrations:", error);
+      throw error;
+    }
+  }
+
+  async seedDatabase(
+    connectionString: string,
+    seedPath: string
+  ): Promise<void> {
+    try {
+      logger.info(`Seeding Redis database from ${seedPath}`);
+
+      for (const file of listDataFiles(seedPath, [".json", ".jsonl"])) {
+        logger.info(`Loading seed file: ${path.basename(file)}`);
+
+        // Snapshots are restored, key files loaded
+        if (file.endsWith(".jsonl")) {
+          await this.restoreSnapshot(connectionString, file);
+          continue;
+        }
+
+        const { client, prefix } = openClient(connectionString);
+        try {
+          const transaction = client.multi();
+          addDataCommands(transaction, prefix, readDataFile(file));
+          await execTransaction(transaction);
+        } finally {
+          client.disconnect();
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to seed Redis database:", error);
+      throw error;
+    }
+  }
+
+  async createSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const { client, prefix } = openClient(connectionString);
+    const fd = fs.openSync(snapshotPath, "w");
+
+    try {
+      // One key per line, serialized by DUMP, without the database's prefix
+      for await (const keys of scanKeys(client, prefix)) {
+        for (const key of keys) {
+          const [value, ttl] = await Promise.all([
+            client.dumpBuffer(key),
+            client.pttl(key),
+          ]);
+          // Expired since the scan
+          if (!value) continue;
+
+          const line = JSON.stringify({
+            key: key.slice(prefix.length),
+            ttl: ttl > 0 ? ttl : 0,
+            value: value.toString("base64"),
+          });
+          fs.writeSync(fd, `${line}\n`);
+        }
+      }
+      logger.info(`Redis snapshot created: ${snapshotPath}`);
+    } finally {
+      fs.closeSync(fd);
+      client.disconnect();
+    }
+  }
+
+  async restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const { prefix } = parseConnectionString(connectionString);
+    const lines = fs
+      .readFileSync(snapshotPath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim());
+
+    // RESTORE is a dangerous command, left out of preview users
+    for (const line of lines) {
+      const { key, ttl, value } = JSON.parse(line);
+      await this.client.restore(
+        `${prefix}${key}`,
+        ttl,
+        Buffer.from(value, "base64"),
+        "REPLACE"
+      );
+    }
+    logger.info(`Redis snapshot restored: ${snapshotPath}`);
+  }
+
+  async getSchema(_connectionString: string): Promise<DatabaseSchema> {
+    // Keys have no schema to compare
+    return { tables: {} };
+  }
+
+  async runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult> {
+    const deadline = Date.now() + timeoutMs;
+    const { client, prefix } = openClient(connectionString, {
+      commandTimeout: timeoutMs,
+    });
+
+    try {
+      const keys: string[] = [];
+      for await (const batch of scanKeys(client, prefix, query.pattern)) {
+        keys.push(...batch);
+        if (keys.length > limit) break;
+        if (Date.now() > deadline) {
+          throw new Error(`Query timed out after ${timeoutMs}ms`);
+        }
+      }
+
+      const rows: Record<string, unknown>[] = [];
+      for (const key of keys.slice(0, limit + 1)) {
+        const type = await client.type(key);
+        rows.push({
+          key: key.slice(prefix.length),
+          type,
+          ttl: await client.ttl(key),
+          value: await readValue(client, key, type),
+        });
+      }
+      return limitQueryResult(["key", "type", "ttl", "value"], rows, limit);
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  async getDatabaseSize(connectionString: string): Promise<number> {
+    const { client, prefix } = openClient(connectionString);
+
+    try {
+      let size = 0;
+      for await (const keys of scanKeys(client, prefix)) {
+        const pipeline = client.pipeline();
+        keys.forEach((key) => pipeline.memory("USAGE", key));
+        for (const [error, usage] of (await pipeline.exec()) || []) {
+          // Keys that expired since the scan have no usage
+          if (!error) size += Number(usage) || 0;
+        }
+      }
+      return size;
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  async setReadOnly(
+    databaseId: string,
+    dbName: string,
+    readOnly: boolean
+  ): Promise<void> {
+    try {
+      // ACL changes apply to the user's open connections as well
+      const rules = readOnly ? ["-@write"] : USER_COMMANDS;
+      await this.client.acl(
+        "SETUSER",
+        generateDatabaseUser(databaseId),
+        ...rules
+      );
+      await this.saveAcl();
+      logger.info(
+        `Redis database ${dbName} ${readOnly ? "restricted to reads" : "writable again"}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to change access to Redis database ${dbName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  async destroyDatabase(databaseId: string, dbName: string): Promise<void> {
+    try {
+      // Deleting the user closes its connections
+      await this.client.acl("DELUSER", generateDatabaseUser(databaseId));
+      await this.saveAcl();
+
+      for await (const keys of scanKeys(this.client, getKeyPrefix(dbName))) {
+        if (keys.length > 0) {
+          await this.client.unlink(...keys);
+        }
+      }
+      logger.info(`Redis database destroyed: ${dbName}`);
+    } catch (error) {
+      logger.error(`Failed to destroy Redis database ${dbName}:`, error);
+      throw error;
+    }
+  }
+
+  async databaseExists(dbName: string): Promise<boolean> {
+    try {
+      // A database is the user whose keys are under its prefix
+      const users = (await this.client.acl("LIST")) as string[];
+      const pattern = ` ~${getKeyPrefix(dbName)}* `;
+      return users.some((user) => `${user} `.includes(pattern));
+    } catch (error) {
+      logger.error(`Failed to check Redis database existence:`, error);
+      throw error;
+    }
+  }
+
+  getConnectionString(dbName: string, user: string, password: string): string {
+    const url = new URL(`redis://${this.server.host}:${this.server.port}`);
+    url.username = user;
+    url.password = password;
+    url.searchParams.set("keyPrefix", getKeyPrefix(dbName));
+    return url.toString();
+  }
+
+  async close(): Promise<void> {
+    this.client.disconnect();
+  }
+
+  /**
+   * Persist the ACL users, when the server keeps them in an ACL file
+   */
+  private async saveAcl(): Promise<void> {
+    try {
+      await this.client.acl("SAVE");
+    } catch {
+      // Without an aclfile, users only live until the server restarts
+    }
+  }
+}
+
+/**
+ * Prefix of the keys of a preview database
+ */
+function getKeyPrefix(dbName: string): string {
+  return `${dbName}:`;
+}
+
+/**
+ * Split a preview's connection string into the server's URL and the key
+ * prefix of its database
+ */
+function parseConnectionString(connectionString: string): {
+  url: string;
+  prefix: string;
+} {
+  const url = new URL(connectionString);
+  const prefix = url.searchParams.get("keyPrefix");
+  if (!prefix) {
+    throw new Error("Redis connection string has no keyPrefix");
+  }
+  url.searchParams.delete("keyPrefix");
+  return { url: url.toString(), prefix };
+}
+
+/**
+ * Connect as a preview's user. The key prefix is applied by hand, since
+ * ioredis leaves it out of SCAN patterns.
+ */
+function openClient(
+  connectionString: string,
+  options: RedisOptions = {}
+): { client: Redis; prefix: string } {
+  const { url, prefix } = parseConnectionString(connectionString);
+  // INFO, used by the ready check, is not allowed for preview users
+  const client = new Redis(url, {
+    enableReadyCheck: false,
+    maxRetriesPerRequest: 1,
+    ...options,
+  });
+  return { client, prefix };
+}
+
+/**
+ * Keys under a prefix matching a pattern, in batches
+ */
+async function* scanKeys(
+  client: Redis,
+  prefix: string,
+  pattern: string = "*"
+): AsyncGenerator<string[]> {
+  let cursor = "0";
+  do {
+    const [next, keys] = await client.scan(
+      cursor,
+      "MATCH",
+      `${prefix}${pattern}`,
+      "COUNT",
+      SCAN_COUNT
+    );
+    cursor = next;
+    yield keys.filter((key) => key !== `${prefix}${MIGRATIONS_TABLE}`);
+  } while (cursor !== "0");
+}
+
+/**
+ * Keys of a migration or seed file: an object of key names to values
+ */
+function readDataFile(file: string): Record<string, unknown> {
+  const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${path.basename(file)} must be an object of keys`);
+  }
+  return data;
+}
+
+/**
+ * Queue the commands that write the keys of a data file. Arrays become
+ * lists, objects hashes and other values strings.
+ */
+function addDataCommands(
+  transaction: ReturnType<Redis["multi"]>,
+  prefix: string,
+  data: Record<string, unknown>
+): void {
+  for (const [name, value] of Object.entries(data)) {
+    const key = `${prefix}${name}`;
+    if (Array.isArray(value)) {
+      transaction.del(key);
+      if (value.length > 0) {
+        transaction.rpush(key, ...value.map(toRedisString));
+      }
+    } else if (value && typeof value === "object") {
+      transaction.del(key);
+      transaction.hset(
+        key,
+        Object.fromEntries(
+          Object.entries(value).map(([field, v]) => [field, toRedisString(v)])
+        )
+      );
+    } else {
+      transaction.set(key, toRedisString(value));
+    }
+  }
+}
+
+function toRedisString(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Run a MULTI transaction, failing with the error of any command in it
+ */
+async function execTransaction(
+  transaction: ReturnType<Redis["multi"]>
+): Promise<void> {
+  for (const [error] of (await transaction.exec()) || []) {
+    if (error) throw error;
+  }
+}
+
+/**
+ * Value of a key for the console
+ */
+async function readValue(
+  client: Redis,
+  key: string,
+  type: string
+): Promise<unknown> {
+  switch (type) {
+    case "string":
+      return client.get(key);
+    case "hash":
+      return client.hgetall(key);
+    case "list":
+      return client.lrange(key, 0, QUERY_VALUE_ITEMS - 1);
+    case "set":
+      return client.smembers(key);
+    case "zset":
+      return client.zrange(key, 0, String(QUERY_VALUE_ITEMS - 1), "WITHSCORES");
+    default:
+      // Streams and modules' types are left out
+      return null;
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  DatabaseSchema,
+  SchemaChange,
+  SchemaChangeKind,
+  SchemaObjectType,
+} from "../../types/database.types";
+
+/**
+ * Changes that turn the base schema into the head schema, ordered by table
+ */
+export function diffSchemas(
+  base: DatabaseSchema,
+  head: DatabaseSchema
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const tables = Array.from(
+    new Set([...Object.keys(base.tables), ...Object.keys(head.tables)])
+  ).sort();
+
+  for (const table of tables) {
+    const before = base.tables[table];
+    const after = head.tables[table];
+
+    if (!before || !after) {
+      changes.push({
+        kind: before ? SchemaChangeKind.REMOVED : SchemaChangeKind.ADDED,
+        object: SchemaObjectType.TABLE,
+        table,
+      });
+      continue;
+    }
+
+    changes.push(
+      ...diffDefinitions(
+        table,
+        SchemaObjectType.COLUMN,
+        before.columns,
+        after.columns
+      ),
+      ...diffDefinitions(
+        table,
+        SchemaObjectType.INDEX,
+        before.indexes,
+        after.indexes
+      )
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the columns or indexes of a table present in both schemas
+ */
+function diffDefinitions(
+  table: string,
+  object: SchemaObjectType,
+  base: Record<string, string>,
+  head: Record<string, string>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const names = Array.from(
+    new Set([...Object.keys(base), ...Object.keys(head)])
+  ).sort();
+
+  for (const name of names) {
+    const before = base[name];
+    const after = head[name];
+    if (before === after) continue;
+
+    const kind =
+      before === undefined
+        ? SchemaChangeKind.ADDED
+        : after === undefined
+          ? SchemaChangeKind.REMOVED
+          : SchemaChangeKind.CHANGED;
+    changes.push({ kind, object, table, name, before, after });
+  }
+
+  return changes;
+}
+
+const CHANGE_SYMBOLS: Record<SchemaChangeKind, string> = {
+  [SchemaChangeKind.ADDED]: "+",
+  [SchemaChangeKind.REMOVED]: "-",
+  [SchemaChangeKind.CHANGED]: "~",
+};
+
+/**
+ * Render schema changes as Markdown for a PR comment
+ */
+export function formatSchemaDiff(
+  changes: SchemaChange[],
+  baseBranch: string
+): string {
+  if (changes.length === 0) {
+    return `No database schema changes compared to \`${baseBranch}\`.`;
+  }
+
+  const lines = changes.map((change) => {
+    const target = change.name
+      ? `${change.table}.${change.name}`
+      : change.table;
+    let detail = "";
+    if (change.kind === SchemaChangeKind.CHANGED) {
+      detail = `\`${change.before}\` → \`${change.after}\``;
+    } else if (change.after || change.before) {
+      detail = `\`${change.after || change.before}\``;
+    }
+    // Pipes in definitions would end the table cell
+    return `| ${CHANGE_SYMBOLS[change.kind]} | ${change.object} | \`${target}\` | ${detail.replace(/\|/g, "\\|")} |`;
+  });
+
+  return [
+    `Database schema changes compared to \`${baseBranch}\`:`,
+    "",
+    "|   | Type | Name | Definition |",
+    "| - | ---- | ---- | ---------- |",
+    ...lines,
+  ].join("\n");
+}
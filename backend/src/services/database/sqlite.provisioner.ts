@@ -0,0 +1,419 @@
+import Database from "better-sqlite3";
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../../config/env";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+} from "../../types/database.types";
+import { logger } from "../../utils/logger";
+import { IDBProvisioner, ProvisionedDatabase } from "./provisioner.interface";
+import {
+  limitQueryResult,
+  listDataFiles,
+  MIGRATIONS_TABLE,
+  toLimitedQuery,
+} from "./tools";
+
+/**
+ * Where the folder of each SQLite database is mounted in the preview's
+ * containers
+ */
+export const SQLITE_MOUNT_DIR = "/var/lib/previewcloud/sqlite";
+
+const DATABASE_FILE = "database.sqlite";
+
+// Runs a console query in a child process, which can be killed while
+// SQLite is busy. Arguments: module, file, sql, number of rows.
+const QUERY_SCRIPT = `
+const [module, file, sql, rows] = process.argv.slice(1);
+const Database = require(module);
+const db = new Database(file, { readonly: true, fileMustExist: true });
+try {
+  const statement = db.prepare(sql);
+  if (!statement.reader) throw new Error("Only queries that return rows are allowed");
+  process.stdout.write(JSON.stringify({
+    columns: statement.columns().map((column) => column.name),
+    rows: statement.all(Number(rows)),
+  }));
+} catch (error) {
+  process.stderr.write(error.message);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
+`;
+
+/**
+ * Mount of a SQLite database's folder into a preview container, as a
+ * Docker bind
+ */
+export function getSqliteBind(dbName: string): string {
+  return `${path.join(getHostDataDir(), dbName)}:${SQLITE_MOUNT_DIR}/${dbName}`;
+}
+
+/**
+ * SQLITE_DATA_DIR as a path on the Docker host. Inside a container the
+ * backend can't know it, so it must be configured.
+ */
+function getHostDataDir(): string {
+  if (config.sqliteHostDataDir) {
+    return config.sqliteHostDataDir;
+  }
+  if (fs.existsSync("/.dockerenv")) {
+    throw new Error(
+      "SQLITE_HOST_DATA_DIR must be set when the backend runs in a container"
+    );
+  }
+  return path.resolve(config.sqliteDataDir);
+}
+
+/**
+ * Preview databases as SQLite files. Each database has its own folder under
+ * SQLITE_DATA_DIR, mounted into the preview's containers, since SQLite
+ * needs to create journal files next to the database. Files have no users:
+ * access comes from the mount.
+ */
+export class SqliteProvisioner implements IDBProvisioner {
+  async createDatabase(
+    _databaseId: string,
+    dbName: string
+  ): Promise<ProvisionedDatabase> {
+    try {
+      // Fail before creating a file no preview container could mount
+      getHostDataDir();
+
+      const file = getDatabaseFile(dbName);
+      if (fs.existsSync(file)) {
+        logger.info(`SQLite database ${dbName} already exists`);
+      } else {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        new Database(file).close();
+        logger.info(`SQLite database created: ${dbName}`);
+      }
+
+      // Containers may run as any user
+      setFileModes(dbName, false);
+
+      return {
+        user: "",
+        password: "",
+        connectionString: this.getConnectionString(dbName, "", ""),
+      };
+    } catch (error) {
+      logger.error(`Failed to create SQLite database ${dbName}:`, error);
+      throw error;
+    }
+  }
+
+  async runMigrations(
+    connectionString: string,
+    migrationsPath: string
+  ): Promise<string[]> {
+    try {
+      logger.info(`Running SQLite migrations from ${migrationsPath}`);
+
+      // Read migration files
+      if (!fs.existsSync(migrationsPath)) {
+        logger.warn(`Migrations path not found: ${migrationsPath}`);
+        return [];
+      }
+
+      const db = openDatabase(connectionString);
+      try {
+        db.exec(
+          `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (name TEXT PRIMARY KEY, applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)`
+        );
+        const rows = db
+          .prepare(`SELECT name FROM ${MIGRATIONS_TABLE}`)
+          .all() as { name: string }[];
+        const applied = new Set(rows.map((row) => row.name));
+
+        const files = fs
+          .readdirSync(migrationsPath)
+          .filter((f) => f.endsWith(".sql") && !applied.has(f))
+          .sort();
+
+        const record = db.prepare(
+          `INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (?)`
+        );
+        for (const file of files) {
+          const sql = fs.readFileSync(path.join(migrationsPath, file), "utf-8");
+
+          logger.info(`Executing migration: ${file}`);
+
+          // A failed migration leaves neither its changes nor its record
+          db.transaction(() => {
+            db.exec(sql);
+            record.run(file);
+          })();
+        }
+
+        logger.info("SQLite migrations completed successfully");
+        return files;
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      logger.error("Failed to run SQLite migrations:", error);
+      throw error;
+    }
+  }
+
+  async seedDatabase(
+    connectionString: string,
+    seedPath: string
+  ): Promise<void> {
+    try {
+      logger.info(`Seeding SQLite database from ${seedPath}`);
+
+      for (const file of listDataFiles(seedPath, [".sql", ".sqlite"])) {
+        logger.info(`Loading seed file: ${path.basename(file)}`);
+
+        // Database files are restored, SQL files executed
+        if (file.endsWith(".sqlite")) {
+          await this.restoreSnapshot(connectionString, file);
+          continue;
+        }
+
+        const db = openDatabase(connectionString);
+        try {
+          db.exec(fs.readFileSync(file, "utf-8"));
+        } finally {
+          db.close();
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to seed SQLite database:", error);
+      throw error;
+    }
+  }
+
+  async createSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const db = openDatabase(connectionString);
+
+    try {
+      // Consistent while the preview keeps writing
+      await db.backup(snapshotPath);
+      logger.info(`SQLite snapshot created: ${snapshotPath}`);
+    } finally {
+      db.close();
+    }
+  }
+
+  async restoreSnapshot(
+    connectionString: string,
+    snapshotPath: string
+  ): Promise<void> {
+    const file = getConnectionFile(connectionString);
+    const db = new Database(snapshotPath, {
+      readonly: true,
+      fileMustExist: true,
+    });
+
+    try {
+      // Written through the backup API rather than copied, so that open
+      // connections of the preview see the restored pages
+      await db.backup(file);
+      logger.info(`SQLite snapshot restored: ${snapshotPath}`);
+    } finally {
+      db.close();
+    }
+  }
+
+  async getSchema(connectionString: string): Promise<DatabaseSchema> {
+    const db = openDatabase(connectionString, true);
+
+    try {
+      const schema: DatabaseSchema = { tables: {} };
+      const tables = db
+        .prepare(
+          `SELECT name FROM sqlite_master
+           WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name <> ?
+           ORDER BY name`
+        )
+        .all(MIGRATIONS_TABLE) as { name: string }[];
+
+      for (const { name } of tables) {
+        const columns: Record<string, string> = {};
+        const info = db
+          .prepare(`SELECT * FROM pragma_table_info(?) ORDER BY cid`)
+          .all(name) as {
+          name: string;
+          type: string;
+          notnull: number;
+          dflt_value: string | null;
+          pk: number;
+        }[];
+        for (const column of info) {
+          let definition = column.type.toLowerCase() || "any";
+          if (column.pk) definition += " primary key";
+          if (column.notnull) definition += " not null";
+          if (column.dflt_value !== null) {
+            definition += ` default ${column.dflt_value}`;
+          }
+          columns[column.name] = definition;
+        }
+
+        // Indexes created for constraints have no SQL
+        const indexes: Record<string, string> = {};
+        const rows = db
+          .prepare(
+            `SELECT name, sql FROM sqlite_master
+             WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`
+          )
+          .all(name) as { name: string; sql: string }[];
+        for (const index of rows) {
+          indexes[index.name] = index.sql;
+        }
+
+        schema.tables[name] = { columns, indexes };
+      }
+
+      return schema;
+    } finally {
+      db.close();
+    }
+  }
+
+  async runQuery(
+    connectionString: string,
+    query: DatabaseQuery,
+    limit: number,
+    timeoutMs: number
+  ): Promise<DatabaseQueryResult> {
+    if (!query.sql) {
+      throw new Error("SQLite queries need sql");
+    }
+    const sql = toLimitedQuery(query.sql);
+
+    const { columns, rows } = await new Promise<{
+      columns: string[];
+      rows: Record<string, unknown>[];
+    }>((resolve, reject) => {
+      execFile(
+        process.execPath,
+        [
+          "-e",
+          QUERY_SCRIPT,
+          require.resolve("better-sqlite3"),
+          getConnectionFile(connectionString),
+          sql,
+          String(limit + 1),
+        ],
+        {
+          timeout: timeoutMs,
+          killSignal: "SIGKILL",
+          maxBuffer: 64 * 1024 * 1024,
+        },
+        (error, stdout, stderr) => {
+          if (error?.killed) {
+            reject(new Error(`Query timed out after ${timeoutMs}ms`));
+          } else if (error) {
+            reject(new Error(stderr.toString().trim() || error.message));
+          } else {
+            resolve(JSON.parse(stdout.toString()));
+          }
+        }
+      );
+    });
+    return limitQueryResult(columns, rows, limit);
+  }
+
+  async getDatabaseSize(connectionString: string): Promise<number> {
+    return fs.statSync(getConnectionFile(connectionString)).size;
+  }
+
+  async setReadOnly(
+    _databaseId: string,
+    dbName: string,
+    readOnly: boolean
+  ): Promise<void> {
+    try {
+      // Containers running as root ignore file modes
+      setFileModes(dbName, readOnly);
+      logger.info(
+        `SQLite database ${dbName} ${readOnly ? "restricted to reads" : "writable again"}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to change access to SQLite database ${dbName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  async destroyDatabase(_databaseId: string, dbName: string): Promise<void> {
+    try {
+      fs.rmSync(path.dirname(getDatabaseFile(dbName)), {
+        recursive: true,
+        force: true,
+      });
+      logger.info(`SQLite database destroyed: ${dbName}`);
+    } catch (error) {
+      logger.error(`Failed to destroy SQLite database ${dbName}:`, error);
+      throw error;
+    }
+  }
+
+  async databaseExists(dbName: string): Promise<boolean> {
+    return fs.existsSync(getDatabaseFile(dbName));
+  }
+
+  getConnectionString(
+    dbName: string,
+    _user: string,
+    _password: string
+  ): string {
+    // The path in the preview's containers
+    return `sqlite://${SQLITE_MOUNT_DIR}/${dbName}/${DATABASE_FILE}`;
+  }
+
+  async close(): Promise<void> {
+    // Files are opened per operation
+  }
+}
+
+/**
+ * File of a SQLite database on the backend
+ */
+function getDatabaseFile(dbName: string): string {
+  return path.join(config.sqliteDataDir, dbName, DATABASE_FILE);
+}
+
+/**
+ * File on the backend of a database's connection string, which holds the
+ * path in the preview's containers
+ */
+function getConnectionFile(connectionString: string): string {
+  const { pathname } = new URL(connectionString);
+  return getDatabaseFile(path.basename(path.dirname(pathname)));
+}
+
+function openDatabase(
+  connectionString: string,
+  readonly: boolean = false
+): Database.Database {
+  return new Database(getConnectionFile(connectionString), {
+    readonly,
+    fileMustExist: true,
+  });
+}
+
+/**
+ * Let containers of any user write a database's folder and files, or only
+ * read them
+ */
+function setFileModes(dbName: string, readOnly: boolean): void {
+  const dir = path.dirname(getDatabaseFile(dbName));
+  fs.chmodSync(dir, readOnly ? 0o555 : 0o777);
+  for (const file of fs.readdirSync(dir)) {
+    fs.chmodSync(path.join(dir, file), readOnly ? 0o444 : 0o666);
+  }
+}
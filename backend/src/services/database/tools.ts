@@ -0,0 +1,128 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../../config/env";
+import { DatabaseQueryResult } from "../../types/database.types";
+import { DatabaseType } from "../../types/preview.types";
+import { truncate } from "../../utils/helpers";
+
+/**
+ * Table (or collection) recording the migration files applied to a database
+ */
+export const MIGRATIONS_TABLE = "_previewcloud_migrations";
+
+/**
+ * Names allowed for database snapshots; they become file names
+ */
+export const SNAPSHOT_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+
+// Dump format of each database type
+const SNAPSHOT_EXTENSIONS: Record<DatabaseType, string> = {
+  [DatabaseType.POSTGRES]: ".dump", // pg_dump custom format
+  [DatabaseType.MYSQL]: ".sql", // mysqldump
+  [DatabaseType.MONGODB]: ".archive", // mongodump --archive --gzip
+  [DatabaseType.REDIS]: ".jsonl", // DUMP of each key, one per line
+  [DatabaseType.SQLITE]: ".sqlite", // Online backup of the database file
+};
+
+/**
+ * Folder of a user's snapshots in the snapshot directory. Snapshots hold
+ * real data, so users only see and replace their own.
+ */
+export function getSnapshotDir(userId: string): string {
+  return path.join(config.databaseSnapshotDir, userId);
+}
+
+/**
+ * File of a user's named snapshot
+ */
+export function getSnapshotPath(
+  type: DatabaseType,
+  name: string,
+  userId: string
+): string {
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid snapshot name: ${name}`);
+  }
+  return path.join(
+    getSnapshotDir(userId),
+    `${name}${SNAPSHOT_EXTENSIONS[type]}`
+  );
+}
+
+/**
+ * Files to load from a seed path: the file itself, or the files of a folder
+ * with one of the extensions, in alphabetical order
+ */
+export function listDataFiles(
+  dataPath: string,
+  extensions: string[]
+): string[] {
+  if (!fs.existsSync(dataPath)) {
+    throw new Error(`Path not found: ${dataPath}`);
+  }
+
+  if (!fs.statSync(dataPath).isDirectory()) {
+    return [dataPath];
+  }
+
+  return fs
+    .readdirSync(dataPath)
+    .filter((f) => extensions.some((ext) => f.endsWith(ext)))
+    .sort()
+    .map((f) => path.join(dataPath, f));
+}
+
+/**
+ * Run a database client tool such as pg_dump, failing with its error output
+ */
+export function runDatabaseTool(
+  command: string,
+  args: string[],
+  env: Record<string, string> = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { env: { ...process.env, ...env }, maxBuffer: 10 * 1024 * 1024 },
+      (error, _stdout, stderr) => {
+        if (error) {
+          const output = stderr.toString().trim() || error.message;
+          reject(new Error(`${command} failed: ${truncate(output, 500)}`));
+          return;
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Wrap a console query as a derived table, which only accepts a single
+ * SELECT (or WITH ... SELECT) statement
+ */
+export function toLimitedQuery(
+  sql: string,
+  limitPlaceholder: string = "?"
+): string {
+  const statement = sql.trim().replace(/;\s*$/, "");
+  return `SELECT * FROM (${statement}) AS console_query LIMIT ${limitPlaceholder}`;
+}
+
+/**
+ * Result of a console query that fetched one row more than the limit, to
+ * tell whether more rows matched
+ */
+export function limitQueryResult(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  limit: number
+): DatabaseQueryResult {
+  return {
+    columns,
+    rows: rows.slice(0, limit),
+    rowCount: Math.min(rows.length, limit),
+    truncated: rows.length > limit,
+  };
+}
@@ -0,0 +1,135 @@
+import { Deployment, IDeployment } from "../models/Deployment.model";
+import {
+  DeploymentAction,
+  DeploymentDetails,
+  DeploymentOutcome,
+  DeploymentStep,
+  DeploymentTrigger,
+  TriggerType,
+} from "../types/deployment.types";
+import { logger } from "../utils/logger";
+
+export class DeploymentService {
+  /**
+   * Start recording a create, update, rollback or destroy of a preview
+   */
+  async startDeployment(
+    previewId: string,
+    action: DeploymentAction,
+    options: {
+      commitSha?: string;
+      imageTags?: Record<string, string>;
+      trigger?: DeploymentTrigger;
+    } = {}
+  ): Promise<IDeployment> {
+    try {
+      return await Deployment.create({
+        previewId,
+        action,
+        commitSha: options.commitSha,
+        imageTags: options.imageTags || {},
+        trigger: options.trigger || { type: TriggerType.SYSTEM },
+        outcome: DeploymentOutcome.IN_PROGRESS,
+        startedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error(`Failed to record deployment for ${previewId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a deployment step and record how long it took
+   */
+  async timeStep<T>(
+    deployment: IDeployment,
+    name: DeploymentStep,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = new Date();
+    let succeeded = false;
+
+    try {
+      const result = await fn();
+      succeeded = true;
+      return result;
+    } finally {
+      deployment.steps.push({
+        name,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        succeeded,
+      });
+      await deployment.save();
+    }
+  }
+
+  /**
+   * Mark a deployment as finished
+   */
+  async finishDeployment(
+    deployment: IDeployment,
+    outcome: DeploymentOutcome,
+    errorMessage?: string
+  ): Promise<IDeployment> {
+    const finishedAt = new Date();
+    deployment.outcome = outcome;
+    deployment.error = errorMessage;
+    deployment.finishedAt = finishedAt;
+    deployment.durationMs =
+      finishedAt.getTime() - deployment.startedAt.getTime();
+    await deployment.save();
+    return deployment;
+  }
+
+  /**
+   * List the deployments of a preview, newest first
+   */
+  async listDeployments(
+    previewId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<IDeployment[]> {
+    const { limit = 50, offset = 0 } = options;
+    return Deployment.find({ previewId })
+      .sort({ startedAt: -1 })
+      .skip(offset)
+      .limit(limit);
+  }
+
+  /**
+   * Count the deployments of a preview
+   */
+  async countDeployments(previewId: string): Promise<number> {
+    return Deployment.countDocuments({ previewId });
+  }
+
+  /**
+   * Format deployment details
+   */
+  formatDeploymentDetails(deployment: IDeployment): DeploymentDetails {
+    return {
+      deploymentId: deployment._id.toString(),
+      previewId: deployment.previewId,
+      action: deployment.action,
+      commitSha: deployment.commitSha,
+      imageTags: Object.fromEntries(deployment.imageTags || new Map()),
+      outcome: deployment.outcome,
+      error: deployment.error,
+      trigger: {
+        type: deployment.trigger.type,
+        userId: deployment.trigger.userId,
+        email: deployment.trigger.email,
+        event: deployment.trigger.event,
+      },
+      steps: deployment.steps.map((step) => ({
+        name: step.name,
+        startedAt: step.startedAt,
+        durationMs: step.durationMs,
+        succeeded: step.succeeded,
+      })),
+      startedAt: deployment.startedAt,
+      finishedAt: deployment.finishedAt,
+      durationMs: deployment.durationMs,
+    };
+  }
+}
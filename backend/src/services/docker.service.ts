@@ -6,6 +6,7 @@ import * as tar from "tar-stream";
 import { getDockerClient } from "../config/docker";
 import { config } from "../config/env";
 import { BuildContext, ContainerConfig } from "../types/preview.types";
+import { sleep } from "../utils/helpers";
 import { logger } from "../utils/logger";
 
 export class DockerService {
@@ -129,6 +130,11 @@ export class DockerService {
     try {
       logger.info(`Creating container: ${containerConfig.name}`);
 
+      const networks = containerConfig.networks?.length
+        ? containerConfig.networks
+        : [config.traefikNetwork];
+      const primaryNetwork = networks[0];
+
       const container = await this.docker.createContainer({
         name: containerConfig.name,
         Image: containerConfig.image,
@@ -136,10 +142,30 @@ export class DockerService {
           ([key, value]) => `${key}=${value}`
         ),
         Labels: containerConfig.labels,
+        Cmd: containerConfig.command,
+        Healthcheck: containerConfig.healthcheck && {
+          Test: ["CMD-SHELL", containerConfig.healthcheck.command],
+          Interval: containerConfig.healthcheck.intervalSeconds * 1e9,
+          Timeout: containerConfig.healthcheck.timeoutSeconds * 1e9,
+          StartPeriod: containerConfig.healthcheck.startPeriodSeconds * 1e9,
+          Retries: 3,
+        },
         HostConfig: {
-          NetworkMode: config.traefikNetwork,
+          NetworkMode: primaryNetwork,
+          Binds: containerConfig.binds,
           RestartPolicy: {
-            Name: "unless-stopped",
+            Name: containerConfig.restart === false ? "no" : "unless-stopped",
+          },
+          ...(containerConfig.resources && {
+            NanoCpus: containerConfig.resources.nanoCpus,
+            Memory: containerConfig.resources.memoryBytes,
+            MemorySwap: containerConfig.resources.memoryBytes, // No swap
+            PidsLimit: containerConfig.resources.pidsLimit,
+          }),
+        },
+        NetworkingConfig: {
+          EndpointsConfig: {
+            [primaryNetwork]: { Aliases: containerConfig.aliases },
           },
         },
         ExposedPorts: containerConfig.port
@@ -147,6 +173,13 @@ export class DockerService {
           : undefined,
       });
 
+      // Docker only attaches one network on create; join the rest now
+      for (const network of networks.slice(1)) {
+        await this.docker
+          .getNetwork(network)
+          .connect({ Container: container.id });
+      }
+
       logger.info(`Container created: ${container.id}`);
       return container.id;
     } catch (error) {
@@ -279,6 +312,203 @@ export class DockerService {
     }
   }
 
+  /**
+   * Get the labels of a container
+   */
+  async getContainerLabels(
+    containerId: string
+  ): Promise<Record<string, string>> {
+    try {
+      const container = this.docker.getContainer(containerId);
+      const info = await container.inspect();
+      return info.Config.Labels || {};
+    } catch (error) {
+      logger.error(`Failed to get labels for container ${containerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a container was last stopped for exceeding its memory limit
+   */
+  async wasOomKilled(containerId: string): Promise<boolean> {
+    const container = this.docker.getContainer(containerId);
+    const info = await container.inspect();
+    return info.State.OOMKilled;
+  }
+
+  /**
+   * Subscribe to events of PreviewCloud-managed containers, e.g. "oom".
+   * Returns the event stream so callers can close it or reconnect.
+   */
+  async watchContainerEvents(
+    events: string[],
+    onEvent: (containerId: string, event: string) => void
+  ): Promise<NodeJS.ReadableStream> {
+    const stream = await this.docker.getEvents({
+      filters: {
+        type: ["container"],
+        event: events,
+        label: ["previewcloud.managed=true"],
+      },
+    });
+
+    let buffer = "";
+    stream.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf-8");
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const event = JSON.parse(line);
+          onEvent(event.Actor?.ID || event.id, event.Action || event.status);
+        } catch (error) {
+          logger.warn(`Failed to parse Docker event: ${line}`, error);
+        }
+      }
+    });
+
+    return stream;
+  }
+
+  /**
+   * Wait until a container is ready to receive traffic. Uses the Docker
+   * health status when the image defines a HEALTHCHECK, otherwise the
+   * container must stay running for a grace period.
+   */
+  async waitForContainerReady(
+    containerId: string,
+    timeoutMs: number = 120000,
+    graceMs: number = 5000
+  ): Promise<void> {
+    const container = this.docker.getContainer(containerId);
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const info = await container.inspect();
+      const state = info.State;
+
+      if (state.Status === "exited" || state.Status === "dead") {
+        throw new Error(
+          `Container ${containerId} exited with code ${state.ExitCode}`
+        );
+      }
+
+      if (state.Health) {
+        if (state.Health.Status === "healthy") {
+          return;
+        }
+        if (state.Health.Status === "unhealthy") {
+          throw new Error(`Container ${containerId} is unhealthy`);
+        }
+      } else if (
+        state.Running &&
+        Date.now() - new Date(state.StartedAt).getTime() >= graceMs
+      ) {
+        return;
+      }
+
+      await sleep(1000);
+    }
+
+    throw new Error(
+      `Container ${containerId} did not become ready within ${
+        timeoutMs / 1000
+      }s`
+    );
+  }
+
+  /**
+   * Get the IP address of a container, preferring the given network
+   */
+  async getContainerIp(
+    containerId: string,
+    networkName: string = config.traefikNetwork
+  ): Promise<string> {
+    const container = this.docker.getContainer(containerId);
+    const info = await container.inspect();
+    const networks = info.NetworkSettings.Networks || {};
+    const network = networks[networkName] || Object.values(networks)[0];
+
+    if (!network?.IPAddress) {
+      throw new Error(`Container ${containerId} has no IP address`);
+    }
+    return network.IPAddress;
+  }
+
+  /**
+   * Run a command inside a running container
+   */
+  async execInContainer(
+    containerId: string,
+    cmd: string[]
+  ): Promise<{ exitCode: number | null; output: string }> {
+    try {
+      const container = this.docker.getContainer(containerId);
+      const exec = await container.exec({
+        Cmd: cmd,
+        AttachStdout: true,
+        AttachStderr: true,
+      });
+
+      const stream = await exec.start({ hijack: true, stdin: false });
+      const chunks: Buffer[] = [];
+      await new Promise<void>((resolve, reject) => {
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve());
+        stream.on("error", reject);
+      });
+
+      const info = await exec.inspect();
+      return {
+        exitCode: info.ExitCode,
+        output: Buffer.concat(chunks).toString("utf-8"),
+      };
+    } catch (error) {
+      logger.error(`Failed to exec in container ${containerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a one-off container to completion and remove it. Containers still
+   * running after the timeout are killed.
+   */
+  async runContainer(
+    containerConfig: ContainerConfig,
+    timeoutSeconds: number
+  ): Promise<{ exitCode: number | null; output: string }> {
+    const containerId = await this.createContainer({
+      ...containerConfig,
+      restart: false,
+    });
+    const container = this.docker.getContainer(containerId);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await container.start();
+      const timedOut = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeoutSeconds * 1000);
+      });
+      const result = await Promise.race([container.wait(), timedOut]);
+
+      const logs = await container.logs({
+        stdout: true,
+        stderr: true,
+        tail: 50,
+      });
+      return {
+        exitCode: result ? result.StatusCode : null,
+        output: logs.toString("utf-8"),
+      };
+    } finally {
+      clearTimeout(timer);
+      await this.removeContainer(containerId, true);
+    }
+  }
+
   /**
    * List containers by label
    */
@@ -303,6 +533,145 @@ export class DockerService {
     }
   }
 
+  /**
+   * Create a bridge network unless it already exists
+   */
+  async createNetwork(
+    name: string,
+    labels: Record<string, string> = {}
+  ): Promise<void> {
+    try {
+      const existing = await this.docker.listNetworks({
+        filters: { name: [name] },
+      });
+      if (existing.some((network) => network.Name === name)) {
+        return;
+      }
+
+      await this.docker.createNetwork({
+        Name: name,
+        Driver: "bridge",
+        Labels: labels,
+      });
+      logger.info(`Network created: ${name}`);
+    } catch (error) {
+      logger.error(`Failed to create network ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a network. Containers still attached are disconnected first.
+   */
+  async removeNetwork(name: string): Promise<void> {
+    try {
+      const network = this.docker.getNetwork(name);
+      const info = await network.inspect();
+      for (const containerId of Object.keys(info.Containers || {})) {
+        await network.disconnect({ Container: containerId, Force: true });
+      }
+      await network.remove();
+      logger.info(`Network removed: ${name}`);
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        logger.debug(`Network not found: ${name}`);
+      } else {
+        logger.error(`Failed to remove network ${name}:`, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List networks with a specific label
+   */
+  async listNetworksByLabel(
+    label: string,
+    value?: string
+  ): Promise<Docker.NetworkInspectInfo[]> {
+    try {
+      return await this.docker.listNetworks({
+        filters: { label: value ? [`${label}=${value}`] : [label] },
+      });
+    } catch (error) {
+      logger.error("Failed to list networks:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a named volume unless it already exists
+   */
+  async createVolume(
+    name: string,
+    labels: Record<string, string> = {}
+  ): Promise<void> {
+    try {
+      // Docker returns the existing volume of the same name
+      await this.docker.createVolume({ Name: name, Labels: labels });
+      logger.debug(`Volume ready: ${name}`);
+    } catch (error) {
+      logger.error(`Failed to create volume ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a volume together with its data
+   */
+  async removeVolume(name: string): Promise<void> {
+    try {
+      await this.docker.getVolume(name).remove();
+      logger.info(`Volume removed: ${name}`);
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        logger.debug(`Volume not found: ${name}`);
+      } else {
+        logger.error(`Failed to remove volume ${name}:`, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List volumes with a specific label
+   */
+  async listVolumesByLabel(
+    label: string,
+    value?: string
+  ): Promise<Docker.VolumeInspectInfo[]> {
+    try {
+      const { Volumes } = await this.docker.listVolumes({
+        filters: { label: [value ? `${label}=${value}` : label] },
+      });
+      return Volumes || [];
+    } catch (error) {
+      logger.error("Failed to list volumes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disk usage in bytes of every volume by name. Docker computes it on
+   * each call, so this is slow on hosts with many volumes.
+   */
+  async getVolumeSizes(): Promise<Map<string, number>> {
+    try {
+      const usage = await this.docker.df();
+      const sizes = new Map<string, number>();
+      for (const volume of usage.Volumes || []) {
+        // -1 when the size could not be determined
+        if (volume.UsageData?.Size >= 0) {
+          sizes.set(volume.Name, volume.UsageData.Size);
+        }
+      }
+      return sizes;
+    } catch (error) {
+      logger.error("Failed to get volume sizes:", error);
+      throw error;
+    }
+  }
+
   /**
    * Remove image
    */
@@ -370,8 +739,11 @@ export class DockerService {
       await this.docker.pruneImages({ filters: { dangling: { true: true } } });
       logger.info("Pruned dangling images");
 
-      // Prune volumes
-      await this.docker.pruneVolumes();
+      // Prune volumes; preview volumes outlive their containers during
+      // updates and are removed with the preview
+      await this.docker.pruneVolumes({
+        filters: { "label!": ["previewcloud.managed"] },
+      });
       logger.info("Pruned unused volumes");
     } catch (error) {
       logger.error("Failed to prune resources:", error);
@@ -1,3 +1,4 @@
+import { TriggerType } from "../types/deployment.types";
 import { logger } from "../utils/logger";
 import { PreviewService } from "./preview.service";
 
@@ -91,7 +92,10 @@ export class GitHubService {
     logger.info(`Handling PR ${prNumber} closed - destroying preview`);
 
     try {
-      await this.previewService.destroyPreview(prNumber);
+      await this.previewService.destroyPreview(prNumber, {
+        type: TriggerType.WEBHOOK,
+        event: "pull_request.closed",
+      });
       logger.info(`Preview destroyed for closed PR #${prNumber}`);
     } catch (error) {
       logger.error(
@@ -0,0 +1,173 @@
+import axios from "axios";
+import net from "net";
+import {
+  ContainerHealthcheck,
+  HealthCheckConfig,
+} from "../types/preview.types";
+import { sleep, truncate } from "../utils/helpers";
+import { logger } from "../utils/logger";
+import { DockerService } from "./docker.service";
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+const DEFAULT_TIMEOUT_SECONDS = 120;
+// Of a single run of the Docker healthcheck
+const CONTAINER_PROBE_TIMEOUT_SECONDS = 5;
+
+// Quote a value for a POSIX shell command
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export class HealthCheckService {
+  private dockerService: DockerService;
+
+  constructor() {
+    this.dockerService = new DockerService();
+  }
+
+  /**
+   * Wait until a container passes its service health check, and Docker
+   * reports it healthy so Traefik routes to it
+   */
+  async waitForHealthy(
+    containerId: string,
+    healthcheck: HealthCheckConfig,
+    servicePort: number
+  ): Promise<void> {
+    const intervalMs =
+      (healthcheck.interval || DEFAULT_INTERVAL_SECONDS) * 1000;
+    const timeoutMs = (healthcheck.timeout || DEFAULT_TIMEOUT_SECONDS) * 1000;
+    const deadline = Date.now() + timeoutMs;
+    let lastError = "no probe completed";
+
+    while (Date.now() < deadline) {
+      const status = await this.dockerService.getContainerStatus(containerId);
+      if (status === "exited" || status === "dead") {
+        throw new Error(`Container ${status} before becoming healthy`);
+      }
+
+      try {
+        await this.probe(containerId, healthcheck, servicePort, intervalMs);
+        logger.info(`Container ${containerId} passed health check`);
+      } catch (error) {
+        lastError = (error as Error).message;
+        logger.debug(`Health check for ${containerId} failed: ${lastError}`);
+        await sleep(intervalMs);
+        continue;
+      }
+
+      // Docker runs the same probe (see getContainerHealthcheck), so it
+      // reports healthy within about one more interval
+      await this.dockerService.waitForContainerReady(
+        containerId,
+        Math.max(deadline - Date.now(), 2 * intervalMs)
+      );
+      return;
+    }
+
+    throw new Error(
+      `Health check did not pass within ${timeoutMs / 1000}s (${lastError})`
+    );
+  }
+
+  /**
+   * Docker healthcheck running the same probe inside the container, so
+   * Traefik only routes to the container once it passes. http and tcp
+   * probes use wget, curl or nc; images without them report healthy.
+   */
+  getContainerHealthcheck(
+    healthcheck: HealthCheckConfig,
+    servicePort?: number
+  ): ContainerHealthcheck {
+    let command: string;
+    if (healthcheck.http) {
+      const path = healthcheck.http.startsWith("/")
+        ? healthcheck.http
+        : `/${healthcheck.http}`;
+      const url = shellQuote(`http://127.0.0.1:${servicePort}${path}`);
+      command =
+        `if command -v wget >/dev/null 2>&1; then wget -q -O /dev/null ${url}; ` +
+        `elif command -v curl >/dev/null 2>&1; then curl -fs -o /dev/null ${url}; fi`;
+    } else if (healthcheck.tcp) {
+      command = `if command -v nc >/dev/null 2>&1; then nc -z 127.0.0.1 ${healthcheck.tcp}; fi`;
+    } else {
+      command = healthcheck.command!;
+    }
+
+    return {
+      command,
+      intervalSeconds: healthcheck.interval || DEFAULT_INTERVAL_SECONDS,
+      timeoutSeconds: CONTAINER_PROBE_TIMEOUT_SECONDS,
+      startPeriodSeconds: healthcheck.timeout || DEFAULT_TIMEOUT_SECONDS,
+    };
+  }
+
+  /**
+   * Run a single probe, throwing if it fails
+   */
+  private async probe(
+    containerId: string,
+    healthcheck: HealthCheckConfig,
+    servicePort: number,
+    probeTimeoutMs: number
+  ): Promise<void> {
+    if (healthcheck.command) {
+      const { exitCode, output } = await this.dockerService.execInContainer(
+        containerId,
+        ["sh", "-c", healthcheck.command]
+      );
+      if (exitCode !== 0) {
+        throw new Error(
+          `command exited with code ${exitCode}: ${truncate(output.trim(), 200)}`
+        );
+      }
+      return;
+    }
+
+    const ip = await this.dockerService.getContainerIp(containerId);
+
+    if (healthcheck.http) {
+      const path = healthcheck.http.startsWith("/")
+        ? healthcheck.http
+        : `/${healthcheck.http}`;
+      const response = await axios.get(`http://${ip}:${servicePort}${path}`, {
+        timeout: probeTimeoutMs,
+        validateStatus: () => true,
+      });
+      if (response.status < 200 || response.status >= 400) {
+        throw new Error(`GET ${path} returned ${response.status}`);
+      }
+      return;
+    }
+
+    if (healthcheck.tcp) {
+      await this.checkTcp(ip, healthcheck.tcp, probeTimeoutMs);
+    }
+  }
+
+  /**
+   * Check that a TCP port accepts connections
+   */
+  private checkTcp(
+    host: string,
+    port: number,
+    timeoutMs: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      socket.setTimeout(timeoutMs);
+      socket.once("connect", () => {
+        socket.destroy();
+        resolve();
+      });
+      socket.once("timeout", () => {
+        socket.destroy();
+        reject(new Error(`TCP port ${port} timed out`));
+      });
+      socket.once("error", (error) => {
+        socket.destroy();
+        reject(new Error(`TCP port ${port}: ${error.message}`));
+      });
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import { config } from "../config/env";
+import { IJob } from "../models/Job.model";
+import { Preview } from "../models/Preview.model";
+import { DeploymentTrigger, TriggerType } from "../types/deployment.types";
+import { JobStatus, JobType } from "../types/job.types";
+import { PreviewConfig, PreviewStatus } from "../types/preview.types";
+import { logger } from "../utils/logger";
+import { JobCancelledError, JobService } from "./job.service";
+import { LockService, LockUnavailableError } from "./lock.service";
+import { LogsService } from "./logs.service";
+import { PreviewService } from "./preview.service";
+
+export class JobWorker {
+  private jobService: JobService;
+  private previewService: PreviewService;
+  private logsService: LogsService;
+  private lockService: LockService;
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+
+  constructor() {
+    this.jobService = new JobService();
+    this.previewService = new PreviewService();
+    this.logsService = new LogsService();
+    this.lockService = new LockService();
+  }
+
+  /**
+   * Start the job worker
+   */
+  async start(): Promise<void> {
+    await this.recoverInterruptedJobs();
+
+    this.timer = setInterval(
+      () => this.poll(),
+      config.jobPollIntervalSeconds * 1000
+    );
+
+    logger.info(
+      `Job worker started (polls every ${config.jobPollIntervalSeconds}s, concurrency ${config.jobConcurrency})`
+    );
+  }
+
+  /**
+   * Stop the job worker
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info("Job worker stopped");
+    }
+  }
+
+  /**
+   * Claim queued jobs until the concurrency limit is reached
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.recoverInterruptedJobs();
+
+      while (this.activeJobs < config.jobConcurrency) {
+        const job = await this.jobService.claimNextJob();
+        if (!job) break;
+
+        this.activeJobs++;
+        this.runJob(job).finally(() => {
+          this.activeJobs--;
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to poll job queue:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run a single claimed job while holding its preview's lock
+   */
+  private async runJob(job: IJob): Promise<void> {
+    try {
+      const result = await this.lockService.withLock(job.previewId, () => {
+        logger.info(
+          `Running ${job.type} job ${job._id} for preview ${job.previewId} (attempt ${job.attempts}/${job.maxAttempts})`
+        );
+        return this.execute(job);
+      });
+      const completed = await this.jobService.completeJob(job, result);
+      logger.info(`Job ${job._id} ${completed.status}`);
+    } catch (error) {
+      if (error instanceof LockUnavailableError) {
+        // Another operation is working on this preview; try again later
+        const deferred = await this.jobService.deferJob(
+          job,
+          config.jobPollIntervalSeconds * 1000
+        );
+        logger.info(
+          deferred.status === JobStatus.CANCELLED
+            ? `Job ${job._id} was cancelled while waiting for preview ${job.previewId}`
+            : `Preview ${job.previewId} is busy, deferring job ${job._id}`
+        );
+        return;
+      }
+
+      if (error instanceof JobCancelledError) {
+        logger.info(error.message);
+      } else {
+        logger.error(`Job ${job._id} failed:`, error);
+      }
+      const updated = await this.jobService.failJob(
+        job,
+        (error as Error).message
+      );
+      if (updated.status !== JobStatus.QUEUED) {
+        await this.markPreviewFailed(updated);
+      }
+    }
+  }
+
+  /**
+   * Execute the work for a job
+   */
+  private async execute(job: IJob): Promise<Record<string, any>> {
+    switch (job.type) {
+      case JobType.DEPLOY: {
+        const preview = await this.previewService.createPreview(
+          job.userId,
+          job.payload as PreviewConfig,
+          this.getTrigger(job),
+          () => this.checkCancelled(job)
+        );
+        return {
+          previewId: preview.previewId,
+          status: preview.status,
+          urls: Object.fromEntries(preview.urls),
+        };
+      }
+      case JobType.ROLLBACK: {
+        const preview = await this.previewService.rollbackPreview(
+          job.previewId,
+          job.payload.revision,
+          this.getTrigger(job)
+        );
+        return {
+          previewId: preview.previewId,
+          status: preview.status,
+          revision: preview.currentRevision,
+          commitSha: preview.commitSha,
+        };
+      }
+      default:
+        throw new Error(`Unsupported job type: ${job.type}`);
+    }
+  }
+
+  /**
+   * Stop a job between deployment steps once its cancellation was requested,
+   * e.g. because a newer commit superseded it
+   */
+  private async checkCancelled(job: IJob): Promise<void> {
+    if (await this.jobService.isCancelRequested(job)) {
+      throw new JobCancelledError(job._id.toString());
+    }
+  }
+
+  /**
+   * Deployments run by a job are attributed to the user who enqueued it
+   */
+  private getTrigger(job: IJob): DeploymentTrigger {
+    return { type: TriggerType.USER, userId: job.userId.toString() };
+  }
+
+  /**
+   * Requeue or fail jobs that were running when their backend stopped.
+   * Runs on start and on every poll: the lock of a backend that stopped
+   * is only free once its lease expires, e.g. after a quick restart.
+   */
+  private async recoverInterruptedJobs(): Promise<void> {
+    try {
+      const jobs = await this.jobService.findInterruptedJobs(
+        new Date(Date.now() - config.previewLockLeaseSeconds * 1000)
+      );
+      if (jobs.length === 0) return;
+
+      logger.debug(
+        `Found ${jobs.length} running jobs, checking for interruptions`
+      );
+
+      for (const job of jobs) {
+        // A live lease means a backend instance is still running it
+        if (await this.lockService.isLocked(job.previewId)) {
+          continue;
+        }
+
+        const updated = await this.jobService.failJob(
+          job,
+          "Job interrupted: the backend running it stopped"
+        );
+        if (updated.status !== JobStatus.QUEUED) {
+          await this.markPreviewFailed(updated);
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to recover interrupted jobs:", error);
+    }
+  }
+
+  /**
+   * Mark a preview failed if a finished job left it mid-deployment
+   */
+  private async markPreviewFailed(job: IJob): Promise<void> {
+    try {
+      const preview = await Preview.findOneAndUpdate(
+        {
+          previewId: job.previewId,
+          status: { $in: [PreviewStatus.CREATING, PreviewStatus.UPDATING] },
+        },
+        { status: PreviewStatus.FAILED },
+        { new: true }
+      );
+
+      if (preview) {
+        await this.logsService.createLog(
+          job.previewId,
+          "system",
+          `Deployment job ${job.status}: ${job.error}`
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to mark preview ${job.previewId} as failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import mongoose from "mongoose";
+import { IJob, Job } from "../models/Job.model";
+import { JobStatus, JobType } from "../types/job.types";
+import { JobService } from "./job.service";
+
+jest.mock("../config/env", () => ({ config: { jobMaxAttempts: 3 } }));
+jest.mock("../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../models/Job.model", () => ({
+  Job: {
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    findById: jest.fn(),
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+const JobModel = Job as unknown as Record<string, jest.Mock>;
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+// A claimed deploy job on its first attempt
+function makeJob(overrides: Partial<IJob> = {}): IJob {
+  return {
+    _id: "job-1",
+    type: JobType.DEPLOY,
+    previewId: "pr-1",
+    status: JobStatus.RUNNING,
+    attempts: 1,
+    maxAttempts: 3,
+    cancelRequested: false,
+    lockedAt: NOW,
+    save: jest.fn(),
+    ...overrides,
+  } as unknown as IJob;
+}
+
+describe("JobService", () => {
+  let jobService: JobService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    jobService = new JobService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("enqueueJob", () => {
+    it("supersedes unfinished deploy jobs of the preview", async () => {
+      JobModel.updateMany.mockResolvedValue({ modifiedCount: 1 });
+      JobModel.create.mockImplementation(async (fields) => ({
+        _id: "job-2",
+        ...fields,
+      }));
+      const userId = new mongoose.Types.ObjectId();
+
+      const job = await jobService.enqueueJob(JobType.DEPLOY, "pr-1", userId, {
+        commitSha: "abcdef1234",
+      });
+
+      expect(JobModel.updateMany).toHaveBeenCalledWith(
+        { type: JobType.DEPLOY, previewId: "pr-1", status: JobStatus.QUEUED },
+        {
+          $set: expect.objectContaining({
+            status: JobStatus.CANCELLED,
+            error: "Superseded by a newer deployment (abcdef1)",
+          }),
+        }
+      );
+      expect(JobModel.updateMany).toHaveBeenCalledWith(
+        { type: JobType.DEPLOY, previewId: "pr-1", status: JobStatus.RUNNING },
+        { $set: { cancelRequested: true } }
+      );
+      expect(job).toMatchObject({
+        type: JobType.DEPLOY,
+        status: JobStatus.QUEUED,
+        maxAttempts: 3,
+        runAfter: NOW,
+      });
+    });
+
+    it("leaves other jobs alone for a rollback", async () => {
+      JobModel.create.mockImplementation(async (fields) => fields);
+
+      await jobService.enqueueJob(
+        JobType.ROLLBACK,
+        "pr-1",
+        new mongoose.Types.ObjectId(),
+        {}
+      );
+
+      expect(JobModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getJob", () => {
+    it("returns null for an invalid ID without querying", async () => {
+      expect(await jobService.getJob("not-an-id")).toBeNull();
+      expect(JobModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deferJob", () => {
+    it("requeues the job without counting the attempt", async () => {
+      const job = makeJob();
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.deferJob(job, 5000);
+
+      expect(job).toMatchObject({
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        lockedAt: undefined,
+        runAfter: new Date(NOW.getTime() + 5000),
+      });
+      expect(job.save).toHaveBeenCalled();
+    });
+
+    it("cancels the job when cancellation was requested", async () => {
+      const job = makeJob();
+      JobModel.findById.mockResolvedValue(
+        makeJob({ cancelRequested: true, save: job.save })
+      );
+
+      const deferred = await jobService.deferJob(job, 5000);
+
+      expect(deferred.status).toBe(JobStatus.CANCELLED);
+      expect(deferred.finishedAt).toEqual(NOW);
+      expect(job.save).toHaveBeenCalled();
+    });
+  });
+
+  describe("completeJob", () => {
+    it("marks the job succeeded", async () => {
+      const job = makeJob();
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.completeJob(job, { deploymentId: "d-1" });
+
+      expect(job).toMatchObject({
+        status: JobStatus.SUCCEEDED,
+        result: { deploymentId: "d-1" },
+        lockedAt: undefined,
+        finishedAt: NOW,
+      });
+    });
+
+    it("marks the job cancelled when cancellation was requested", async () => {
+      const job = makeJob({ cancelRequested: true });
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.completeJob(job);
+
+      expect(job.status).toBe(JobStatus.CANCELLED);
+    });
+  });
+
+  describe("failJob", () => {
+    it("retries with exponential backoff while attempts remain", async () => {
+      const job = makeJob({ attempts: 2 });
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.failJob(job, "boom");
+
+      expect(job).toMatchObject({
+        status: JobStatus.QUEUED,
+        error: "boom",
+        runAfter: new Date(NOW.getTime() + 60000),
+      });
+    });
+
+    it("marks the job failed after its last attempt", async () => {
+      const job = makeJob({ attempts: 3 });
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.failJob(job, "boom");
+
+      expect(job).toMatchObject({ status: JobStatus.FAILED, finishedAt: NOW });
+    });
+
+    it("marks the job cancelled instead of retrying it", async () => {
+      const job = makeJob({ cancelRequested: true });
+      JobModel.findById.mockResolvedValue(job);
+
+      await jobService.failJob(job, "boom");
+
+      expect(job.status).toBe(JobStatus.CANCELLED);
+    });
+  });
+
+  describe("findInterruptedJobs", () => {
+    it("finds running jobs claimed before the given time", async () => {
+      JobModel.find.mockResolvedValue([]);
+      const claimedBefore = new Date(NOW.getTime() - 120000);
+
+      await jobService.findInterruptedJobs(claimedBefore);
+
+      expect(JobModel.find).toHaveBeenCalledWith({
+        status: JobStatus.RUNNING,
+        lockedAt: { $lte: claimedBefore },
+      });
+    });
+  });
+});
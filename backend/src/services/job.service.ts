@@ -0,0 +1,256 @@
+import mongoose from "mongoose";
+import { config } from "../config/env";
+import { IJob, Job } from "../models/Job.model";
+import { JobDetails, JobStatus, JobType } from "../types/job.types";
+import { logger } from "../utils/logger";
+
+/**
+ * Thrown by a running job's work when cancellation of the job was requested
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+export class JobService {
+  /**
+   * Enqueue a new job. A deploy job supersedes older deploy jobs for the
+   * same preview that have not finished yet.
+   */
+  async enqueueJob(
+    type: JobType,
+    previewId: string,
+    userId: mongoose.Types.ObjectId,
+    payload: Record<string, any>
+  ): Promise<IJob> {
+    if (type === JobType.DEPLOY) {
+      await this.supersedePendingJobs(previewId, payload.commitSha);
+    }
+
+    const job = await Job.create({
+      type,
+      previewId,
+      userId,
+      payload,
+      status: JobStatus.QUEUED,
+      maxAttempts: config.jobMaxAttempts,
+      runAfter: new Date(),
+    });
+
+    logger.info(`Enqueued ${type} job ${job._id} for preview ${previewId}`);
+    return job;
+  }
+
+  /**
+   * Cancel queued deploy jobs for a preview and stop running ones from
+   * being retried, so only the newest commit gets deployed
+   */
+  private async supersedePendingJobs(
+    previewId: string,
+    commitSha?: string
+  ): Promise<void> {
+    const reason = `Superseded by a newer deployment${
+      commitSha ? ` (${commitSha.substring(0, 7)})` : ""
+    }`;
+
+    const queued = await Job.updateMany(
+      { type: JobType.DEPLOY, previewId, status: JobStatus.QUEUED },
+      {
+        $set: {
+          status: JobStatus.CANCELLED,
+          cancelRequested: true,
+          error: reason,
+          finishedAt: new Date(),
+        },
+      }
+    );
+
+    await Job.updateMany(
+      { type: JobType.DEPLOY, previewId, status: JobStatus.RUNNING },
+      { $set: { cancelRequested: true } }
+    );
+
+    if (queued.modifiedCount > 0) {
+      logger.info(
+        `Superseded ${queued.modifiedCount} queued deploy jobs for preview ${previewId}`
+      );
+    }
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<IJob | null> {
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return null;
+    }
+    return Job.findById(jobId);
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs are
+   * flagged and finish as cancelled instead of being retried.
+   */
+  async cancelJob(jobId: string): Promise<IJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === JobStatus.QUEUED) {
+      job.status = JobStatus.CANCELLED;
+      job.cancelRequested = true;
+      job.finishedAt = new Date();
+      await job.save();
+      logger.info(`Cancelled queued job ${jobId}`);
+    } else if (job.status === JobStatus.RUNNING) {
+      job.cancelRequested = true;
+      await job.save();
+      logger.info(`Cancellation requested for running job ${jobId}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Whether cancellation of a running job has been requested since it was
+   * claimed
+   */
+  async isCancelRequested(job: IJob): Promise<boolean> {
+    const current = await Job.findById(job._id).select("cancelRequested");
+    return !!current?.cancelRequested;
+  }
+
+  /**
+   * Atomically claim the oldest job that is ready to run
+   */
+  async claimNextJob(): Promise<IJob | null> {
+    const now = new Date();
+    return Job.findOneAndUpdate(
+      {
+        status: JobStatus.QUEUED,
+        runAfter: { $lte: now },
+      },
+      {
+        $set: {
+          status: JobStatus.RUNNING,
+          lockedAt: now,
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Put a claimed job back in the queue without counting the attempt,
+   * e.g. when its preview is locked by another operation. A job cancelled
+   * or superseded in the meantime is finished as cancelled instead.
+   */
+  async deferJob(job: IJob, delayMs: number): Promise<IJob> {
+    // Reload to pick up cancellation requests made since the job was claimed
+    const current = (await Job.findById(job._id)) || job;
+
+    current.lockedAt = undefined;
+
+    if (current.cancelRequested) {
+      current.status = JobStatus.CANCELLED;
+      current.finishedAt = new Date();
+    } else {
+      current.status = JobStatus.QUEUED;
+      current.attempts = Math.max(current.attempts - 1, 0);
+      current.runAfter = new Date(Date.now() + delayMs);
+    }
+
+    await current.save();
+    return current;
+  }
+
+  /**
+   * Mark a job as succeeded, or as cancelled if cancellation was requested
+   * after its last step started
+   */
+  async completeJob(job: IJob, result?: Record<string, any>): Promise<IJob> {
+    // Reload to pick up cancellation requests made while the job was running
+    const current = (await Job.findById(job._id)) || job;
+
+    current.status = current.cancelRequested
+      ? JobStatus.CANCELLED
+      : JobStatus.SUCCEEDED;
+    current.result = result;
+    current.error = undefined;
+    current.lockedAt = undefined;
+    current.finishedAt = new Date();
+    await current.save();
+    return current;
+  }
+
+  /**
+   * Record a failed attempt. The job is requeued with exponential backoff
+   * while attempts remain, otherwise it is marked failed.
+   */
+  async failJob(job: IJob, errorMessage: string): Promise<IJob> {
+    // Reload to pick up cancellation requests made while the job was running
+    const current = (await Job.findById(job._id)) || job;
+
+    current.error = errorMessage;
+    current.lockedAt = undefined;
+
+    if (current.cancelRequested) {
+      current.status = JobStatus.CANCELLED;
+      current.finishedAt = new Date();
+    } else if (current.attempts < current.maxAttempts) {
+      const delayMs = 30000 * Math.pow(2, current.attempts - 1);
+      current.status = JobStatus.QUEUED;
+      current.runAfter = new Date(Date.now() + delayMs);
+      logger.info(
+        `Job ${current._id} will be retried in ${delayMs / 1000}s (attempt ${
+          current.attempts
+        }/${current.maxAttempts})`
+      );
+    } else {
+      current.status = JobStatus.FAILED;
+      current.finishedAt = new Date();
+    }
+
+    await current.save();
+    return current;
+  }
+
+  /**
+   * Find jobs left in the running state, e.g. by a backend restart, that
+   * were claimed before a point in time. Jobs claimed since may not have
+   * taken their preview's lock yet.
+   */
+  async findInterruptedJobs(claimedBefore: Date): Promise<IJob[]> {
+    return Job.find({
+      status: JobStatus.RUNNING,
+      lockedAt: { $lte: claimedBefore },
+    });
+  }
+
+  /**
+   * Format job details
+   */
+  formatJobDetails(job: IJob): JobDetails {
+    return {
+      jobId: job._id.toString(),
+      type: job.type,
+      status: job.status,
+      previewId: job.previewId,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      cancelRequested: job.cancelRequested,
+      error: job.error,
+      result: job.result,
+      runAfter: job.runAfter,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { Lock } from "../models/Lock.model";
+import { LockService, LockUnavailableError } from "./lock.service";
+
+jest.mock("../config/env", () => ({
+  config: { previewLockLeaseSeconds: 120 },
+}));
+jest.mock("../utils/logger", () => ({
+  logger: { debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../utils/helpers", () => ({
+  ...jest.requireActual("../utils/helpers"),
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("../models/Lock.model", () => ({
+  Lock: {
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+    findOne: jest.fn(),
+  },
+}));
+
+const LockModel = Lock as unknown as Record<string, jest.Mock>;
+
+// What MongoDB throws when the upsert finds another owner's live lease
+const duplicateKeyError = Object.assign(new Error("E11000"), { code: 11000 });
+
+describe("LockService", () => {
+  let lockService: LockService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    LockModel.findOneAndUpdate.mockResolvedValue({});
+    LockModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+    LockModel.deleteOne.mockResolvedValue({});
+    lockService = new LockService(3);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("acquireLock", () => {
+    it("takes a free or expired lock, or one the owner already holds", async () => {
+      expect(await lockService.acquireLock("pr-1", "owner-1")).toBe(true);
+      expect(LockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          key: "pr-1",
+          $or: [
+            { expiresAt: { $lte: expect.any(Date) } },
+            { owner: "owner-1" },
+          ],
+        },
+        { $set: { owner: "owner-1", expiresAt: expect.any(Date) } },
+        { upsert: true, new: true }
+      );
+    });
+
+    it("returns false while another owner holds the lock", async () => {
+      LockModel.findOneAndUpdate.mockRejectedValue(duplicateKeyError);
+
+      expect(await lockService.acquireLock("pr-1", "owner-1")).toBe(false);
+    });
+
+    it("rethrows other errors", async () => {
+      LockModel.findOneAndUpdate.mockRejectedValue(new Error("down"));
+
+      await expect(lockService.acquireLock("pr-1", "owner-1")).rejects.toThrow(
+        "down"
+      );
+    });
+  });
+
+  describe("withLock", () => {
+    it("runs the function and releases the lock", async () => {
+      const result = await lockService.withLock("pr-1", async () => "done");
+
+      expect(result).toBe("done");
+      expect(LockModel.deleteOne).toHaveBeenCalledWith({
+        key: "pr-1",
+        owner: expect.any(String),
+      });
+    });
+
+    it("releases the lock when the function throws", async () => {
+      await expect(
+        lockService.withLock("pr-1", async () => {
+          throw new Error("failed");
+        })
+      ).rejects.toThrow("failed");
+
+      expect(LockModel.deleteOne).toHaveBeenCalled();
+    });
+
+    it("throws LockUnavailableError without waiting by default", async () => {
+      LockModel.findOneAndUpdate.mockRejectedValue(duplicateKeyError);
+      const fn = jest.fn();
+
+      await expect(lockService.withLock("pr-1", fn)).rejects.toBeInstanceOf(
+        LockUnavailableError
+      );
+      expect(fn).not.toHaveBeenCalled();
+      expect(LockModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it("retries until the lock is free within the wait time", async () => {
+      LockModel.findOneAndUpdate
+        .mockRejectedValueOnce(duplicateKeyError)
+        .mockResolvedValueOnce({});
+
+      const result = await lockService.withLock(
+        "pr-1",
+        async () => "done",
+        60000
+      );
+
+      expect(result).toBe("done");
+      expect(LockModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it("renews the lease while the function runs", async () => {
+      jest.useFakeTimers();
+      let finish!: () => void;
+      const running = lockService.withLock(
+        "pr-1",
+        () => new Promise<void>((resolve) => (finish = resolve))
+      );
+
+      // A third of the 3s lease
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(LockModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(LockModel.updateOne).toHaveBeenCalledWith(
+        { key: "pr-1", owner: expect.any(String) },
+        { $set: { expiresAt: expect.any(Date) } }
+      );
+
+      finish();
+      await running;
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(LockModel.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+});
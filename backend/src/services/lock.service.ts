@@ -0,0 +1,132 @@
+import os from "os";
+import { config } from "../config/env";
+import { Lock } from "../models/Lock.model";
+import { generateUniqueId, sleep } from "../utils/helpers";
+import { logger } from "../utils/logger";
+
+/**
+ * Thrown when a lock could not be acquired within the allowed wait time
+ */
+export class LockUnavailableError extends Error {
+  constructor(key: string) {
+    super(`Lock ${key} is held by another operation`);
+    this.name = "LockUnavailableError";
+  }
+}
+
+export class LockService {
+  private leaseMs: number;
+
+  constructor(leaseSeconds: number = config.previewLockLeaseSeconds) {
+    this.leaseMs = leaseSeconds * 1000;
+  }
+
+  /**
+   * Generate a unique owner token for a lock holder
+   */
+  createOwnerId(): string {
+    return `${os.hostname()}:${process.pid}:${generateUniqueId()}`;
+  }
+
+  /**
+   * Try to acquire a lock. Succeeds if the lock is free, expired, or
+   * already held by the same owner.
+   */
+  async acquireLock(key: string, owner: string): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      await Lock.findOneAndUpdate(
+        {
+          key,
+          $or: [{ expiresAt: { $lte: now } }, { owner }],
+        },
+        {
+          $set: {
+            owner,
+            expiresAt: new Date(now.getTime() + this.leaseMs),
+          },
+        },
+        { upsert: true, new: true }
+      );
+      logger.debug(`Lock acquired: ${key} (${owner})`);
+      return true;
+    } catch (error) {
+      // Duplicate key: another owner holds an unexpired lease
+      if ((error as any).code === 11000) {
+        return false;
+      }
+      logger.error(`Failed to acquire lock ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extend the lease of a held lock
+   */
+  async renewLock(key: string, owner: string): Promise<boolean> {
+    const result = await Lock.updateOne(
+      { key, owner },
+      { $set: { expiresAt: new Date(Date.now() + this.leaseMs) } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Release a held lock
+   */
+  async releaseLock(key: string, owner: string): Promise<void> {
+    try {
+      await Lock.deleteOne({ key, owner });
+      logger.debug(`Lock released: ${key} (${owner})`);
+    } catch (error) {
+      logger.error(`Failed to release lock ${key}:`, error);
+    }
+  }
+
+  /**
+   * Check whether a lock is currently leased by any owner
+   */
+  async isLocked(key: string): Promise<boolean> {
+    const lock = await Lock.findOne({ key, expiresAt: { $gt: new Date() } });
+    return !!lock;
+  }
+
+  /**
+   * Run a function while holding a lock. The lease is renewed in the
+   * background until the function settles.
+   */
+  async withLock<T>(
+    key: string,
+    fn: () => Promise<T>,
+    waitMs: number = 0
+  ): Promise<T> {
+    const owner = this.createOwnerId();
+    const deadline = Date.now() + waitMs;
+
+    while (!(await this.acquireLock(key, owner))) {
+      if (Date.now() >= deadline) {
+        throw new LockUnavailableError(key);
+      }
+      await sleep(2000);
+    }
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await this.renewLock(key, owner);
+        if (!renewed) {
+          logger.warn(`Lost lease on lock ${key} (${owner})`);
+        }
+      } catch (error) {
+        logger.error(`Failed to renew lock ${key}:`, error);
+      }
+    }, this.leaseMs / 3);
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await this.releaseLock(key, owner);
+    }
+  }
+}
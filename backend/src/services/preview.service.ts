@@ -1,52 +1,120 @@
+import * as fs from "fs";
 import mongoose from "mongoose";
-import { IPreview, Preview } from "../models/Preview.model";
+import { AppError } from "../middleware/errorHandler";
+import { IDeployment } from "../models/Deployment.model";
+import { IPreview, IPreviewDatabase, Preview } from "../models/Preview.model";
+import { SchemaBaseline } from "../models/SchemaBaseline.model";
+import { IUser } from "../models/User.model";
+import { AddonConfig, AddonDetails, AddonType } from "../types/addon.types";
+import {
+  DatabaseQuery,
+  DatabaseQueryResult,
+  DatabaseSchema,
+  SchemaDiffReport,
+} from "../types/database.types";
+import {
+  DeploymentAction,
+  DeploymentOutcome,
+  DeploymentStep,
+  DeploymentTrigger,
+  TriggerType,
+} from "../types/deployment.types";
 import {
   ContainerConfig,
+  DatabaseConfig,
+  DatabaseDetails,
+  DatabaseMode,
   DatabaseType,
+  DependencyCondition,
   PreviewConfig,
   PreviewDetails,
   PreviewStatus,
   PreviewType,
+  ServiceConfig,
+  ServiceDetails,
+  ServiceFailureReason,
+  ServiceKind,
   ServiceStatus,
+  UpdateStrategy,
 } from "../types/preview.types";
 import {
+  decrypt,
+  encrypt,
+  formatBytes,
   generateContainerName,
   generateDatabaseName,
+  generateNetworkName,
   generatePreviewId,
+  generateVolumeName,
+  getAddonConfigs,
+  getDatabaseConfigs,
+  getDatabaseId,
+  getLongRunningServices,
+  getMigrationsConfig,
+  getServiceContainerIds,
+  getServiceDependencies,
+  getServiceImageTags,
+  getServiceKind,
+  getServicePort,
+  getServiceReplicas,
+  isServiceExposed,
+  orderServicesByDependencies,
+  parseServiceVolume,
+  withConnectionPassword,
 } from "../utils/helpers";
 import { logger } from "../utils/logger";
+import { config } from "../config/env";
+import { AddonProvisionerFactory } from "./addons/factory";
+import {
+  DedicatedDatabaseServer,
+  DedicatedDatabaseService,
+} from "./database/dedicated.service";
 import { DBProvisionerFactory } from "./database/factory";
+import { diffSchemas, formatSchemaDiff } from "./database/schema-diff";
+import { getSqliteBind } from "./database/sqlite.provisioner";
+import { getSnapshotDir, getSnapshotPath } from "./database/tools";
+import { DeploymentService } from "./deployment.service";
 import { DockerService } from "./docker.service";
+import { HealthCheckService } from "./health-check.service";
+import { LockService } from "./lock.service";
 import { LogsService } from "./logs.service";
+import { ResourceLimitService } from "./resource-limit.service";
 import { TraefikService } from "./traefik.service";
 
 export class PreviewService {
   private dockerService: DockerService;
   private traefikService: TraefikService;
   private logsService: LogsService;
+  private lockService: LockService;
+  private healthCheckService: HealthCheckService;
+  private deploymentService: DeploymentService;
+  private resourceLimitService: ResourceLimitService;
+  private dedicatedDatabaseService: DedicatedDatabaseService;
 
   constructor() {
     this.dockerService = new DockerService();
     this.traefikService = new TraefikService();
     this.logsService = new LogsService();
+    this.lockService = new LockService();
+    this.healthCheckService = new HealthCheckService();
+    this.deploymentService = new DeploymentService();
+    this.resourceLimitService = new ResourceLimitService();
+    this.dedicatedDatabaseService = new DedicatedDatabaseService();
   }
 
   /**
-   * Create a new preview environment
+   * Create a new preview environment. checkCancelled runs before each
+   * deployment step and throws to stop a cancelled job's deployment.
    */
   async createPreview(
     userId: mongoose.Types.ObjectId,
-    previewConfig: PreviewConfig
+    previewConfig: PreviewConfig,
+    trigger?: DeploymentTrigger,
+    checkCancelled?: () => Promise<void>
   ): Promise<IPreview> {
-    const {
-      previewType,
-      prNumber,
-      repoName,
-      repoOwner,
-      branch,
-      services,
-      database,
-    } = previewConfig;
+    const { previewType, prNumber, repoName, repoOwner, branch, services } =
+      previewConfig;
+    const databaseConfigs = getDatabaseConfigs(previewConfig);
 
     // Generate preview ID
     const previewId = generatePreviewId(previewType, prNumber, branch);
@@ -59,6 +127,7 @@ export class PreviewService {
       throw new Error("branch is required for branch preview type");
     }
 
+    let deployment: IDeployment | undefined;
     try {
       const previewLabel =
         previewType === PreviewType.PULL_REQUEST
@@ -70,7 +139,12 @@ export class PreviewService {
       let preview = await Preview.findOne({ previewId });
       if (preview && preview.status !== PreviewStatus.DESTROYED) {
         logger.info(`Preview for ${previewLabel} already exists, updating...`);
-        return this.updatePreview(previewId, previewConfig);
+        return this.updatePreview(
+          previewId,
+          previewConfig,
+          trigger,
+          checkCancelled
+        );
       }
 
       // Create preview document
@@ -88,6 +162,7 @@ export class PreviewService {
         services: [],
         env: previewConfig.env || {},
         password: previewConfig.password,
+        baseBranch: previewConfig.baseBranch,
       });
 
       // Now that preview exists, create initial log
@@ -97,49 +172,94 @@ export class PreviewService {
         `Starting preview creation for ${previewLabel}`
       );
 
-      // Step 1: Provision database if needed
-      if (database) {
-        await this.provisionDatabase(preview, database);
+      deployment = await this.deploymentService.startDeployment(
+        previewId,
+        DeploymentAction.CREATE,
+        {
+          commitSha: previewConfig.commitSha,
+          imageTags: getServiceImageTags(services),
+          trigger,
+        }
+      );
+
+      // Step 1: Provision databases if needed
+      if (databaseConfigs.length > 0) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.DATABASE,
+          async () => {
+            for (const databaseConfig of databaseConfigs) {
+              await this.provisionDatabase(preview!, databaseConfig);
+            }
+          }
+        );
+      }
+
+      // Start addon containers (redis, rabbitmq, ...) if declared
+      if (previewConfig.addons?.length) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.ADDONS,
+          () => this.syncAddons(preview!, previewConfig.addons)
+        );
       }
 
       // Step 2: Pull Docker images (built by GitHub Action)
-      await this.logsService.createLog(
-        previewId,
-        "system",
-        "Pulling Docker images from registry..."
+      await checkCancelled?.();
+      const imageTags = await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.PULL,
+        () =>
+          this.pullServiceImages(
+            previewId,
+            services,
+            "Pulling Docker images from registry..."
+          )
       );
 
-      // Extract image tags from service configs
-      const imageTags: Record<string, string> = {};
-      for (const [serviceName, serviceConfig] of Object.entries(services)) {
-        if (serviceConfig.imageTag) {
-          imageTags[serviceName] = serviceConfig.imageTag;
-          // Pull image from registry
-          await this.logsService.createLog(
-            previewId,
-            "build",
-            `Pulling image: ${serviceConfig.imageTag}`
-          );
-          await this.dockerService.pullImage(serviceConfig.imageTag);
-        } else {
-          throw new Error(
-            `Service ${serviceName} must have imageTag. Images should be built by GitHub Action.`
-          );
-        }
+      // Run the migrations commands with a service image, then seed
+      if (databaseConfigs.some((c) => getMigrationsConfig(c).command)) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.MIGRATE,
+          () =>
+            this.runMigrationCommands(
+              preview!,
+              previewConfig,
+              imageTags,
+              this.getDatabases(preview!)
+            )
+        );
       }
 
       // Step 3: Deploy services with pulled images
-      await this.deployServices(
-        preview,
-        services,
-        previewConfig.env || {},
-        imageTags
+      await checkCancelled?.();
+      await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.DEPLOY,
+        () =>
+          this.deployServices(
+            preview!,
+            services,
+            previewConfig.env || {},
+            imageTags
+          )
       );
 
       // Step 4: Update preview status
+      this.recordRevision(preview, services, previewConfig.env || {});
       preview.status = PreviewStatus.RUNNING;
       preview.lastAccessedAt = new Date();
       await preview.save();
+      await this.recordSchemaBaseline(preview);
+
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.SUCCEEDED
+      );
 
       await this.logsService.createLog(
         previewId,
@@ -151,6 +271,13 @@ export class PreviewService {
       return preview;
     } catch (error) {
       logger.error(`Failed to create preview for ${previewId}:`, error);
+      if (deployment) {
+        await this.deploymentService.finishDeployment(
+          deployment,
+          DeploymentOutcome.FAILED,
+          (error as Error).message
+        );
+      }
       await this.logsService.createLog(
         previewId,
         "system",
@@ -169,12 +296,16 @@ export class PreviewService {
   }
 
   /**
-   * Update an existing preview
+   * Update an existing preview. checkCancelled runs before each
+   * deployment step, like in createPreview.
    */
   async updatePreview(
     previewId: string,
-    previewConfig: PreviewConfig
+    previewConfig: PreviewConfig,
+    trigger?: DeploymentTrigger,
+    checkCancelled?: () => Promise<void>
   ): Promise<IPreview> {
+    let deployment: IDeployment | undefined;
     try {
       logger.info(`Updating preview ${previewId}`);
 
@@ -191,6 +322,86 @@ export class PreviewService {
         `Starting preview update`
       );
 
+      deployment = await this.deploymentService.startDeployment(
+        previewId,
+        DeploymentAction.UPDATE,
+        {
+          commitSha: previewConfig.commitSha,
+          imageTags: getServiceImageTags(previewConfig.services),
+          trigger,
+        }
+      );
+
+      if (previewConfig.baseBranch) {
+        preview.baseBranch = previewConfig.baseBranch;
+      }
+
+      // Apply the migration files added since the last deployment, and
+      // provision added named databases and destroy removed ones
+      const migrations = getMigrationsConfig(previewConfig.database);
+      let provisioned: IPreviewDatabase[] = [];
+      if (
+        (preview.database && migrations.path) ||
+        previewConfig.databases ||
+        preview.databases.length > 0
+      ) {
+        await checkCancelled?.();
+        provisioned = await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.DATABASE,
+          async () => {
+            if (preview.database && migrations.path) {
+              await this.runMigrationFiles(
+                preview,
+                preview.database,
+                migrations.path
+              );
+            }
+            return this.syncDatabases(preview, previewConfig.databases);
+          }
+        );
+      }
+      const hasMigrationCommands = getDatabaseConfigs(previewConfig).some(
+        (c) => getMigrationsConfig(c).command
+      );
+
+      // Start added addons and remove dropped ones; unchanged ones keep
+      // their data
+      if (previewConfig.addons?.length || preview.addons.length) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.ADDONS,
+          () => this.syncAddons(preview, previewConfig.addons)
+        );
+      }
+
+      const strategy =
+        previewConfig.updateStrategy ||
+        (config.defaultUpdateStrategy as UpdateStrategy);
+
+      // Blue/green needs running containers to keep serving from
+      if (
+        strategy === UpdateStrategy.BLUE_GREEN &&
+        preview.status === PreviewStatus.RUNNING &&
+        preview.services.length > 0
+      ) {
+        await this.blueGreenUpdate(
+          preview,
+          previewConfig,
+          deployment,
+          provisioned,
+          checkCancelled
+        );
+        await this.recordSchemaBaseline(preview);
+        await this.deploymentService.finishDeployment(
+          deployment,
+          DeploymentOutcome.SUCCEEDED
+        );
+        return preview;
+      }
+
+      await checkCancelled?.();
       preview.status = PreviewStatus.UPDATING;
       preview.commitSha = previewConfig.commitSha;
       await preview.save();
@@ -199,44 +410,60 @@ export class PreviewService {
       await this.stopServices(preview);
 
       // Pull Docker images (built by GitHub Action)
-      await this.logsService.createLog(
-        previewId,
-        "system",
-        "Pulling updated Docker images from registry..."
+      const imageTags = await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.PULL,
+        () =>
+          this.pullServiceImages(
+            previewId,
+            previewConfig.services,
+            "Pulling updated Docker images from registry..."
+          )
       );
 
-      // Extract image tags from service configs
-      const imageTags: Record<string, string> = {};
-      for (const [serviceName, serviceConfig] of Object.entries(
-        previewConfig.services
-      )) {
-        if (serviceConfig.imageTag) {
-          imageTags[serviceName] = serviceConfig.imageTag;
-          // Pull image from registry
-          await this.logsService.createLog(
-            previewId,
-            "build",
-            `Pulling image: ${serviceConfig.imageTag}`
-          );
-          await this.dockerService.pullImage(serviceConfig.imageTag);
-        } else {
-          throw new Error(
-            `Service ${serviceName} must have imageTag. Images should be built by GitHub Action.`
-          );
-        }
+      if (hasMigrationCommands) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.MIGRATE,
+          () =>
+            this.runMigrationCommands(
+              preview,
+              previewConfig,
+              imageTags,
+              provisioned
+            )
+        );
       }
 
       // Redeploy services with new images
-      await this.deployServices(
+      await checkCancelled?.();
+      await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.DEPLOY,
+        () =>
+          this.deployServices(
+            preview,
+            previewConfig.services,
+            previewConfig.env || {},
+            imageTags
+          )
+      );
+
+      this.recordRevision(
         preview,
         previewConfig.services,
-        previewConfig.env || {},
-        imageTags
+        previewConfig.env || {}
       );
-
       preview.status = PreviewStatus.RUNNING;
       preview.lastAccessedAt = new Date();
       await preview.save();
+      await this.recordSchemaBaseline(preview);
+
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.SUCCEEDED
+      );
 
       await this.logsService.createLog(
         previewId,
@@ -248,273 +475,1898 @@ export class PreviewService {
       return preview;
     } catch (error) {
       logger.error(`Failed to update preview ${previewId}:`, error);
+      if (deployment) {
+        await this.deploymentService.finishDeployment(
+          deployment,
+          DeploymentOutcome.FAILED,
+          (error as Error).message
+        );
+      }
       await this.logsService.createLog(
         previewId,
         "system",
         `Preview update failed: ${(error as Error).message}`
       );
+      await this.rollbackFailedUpdate(previewId);
       throw error;
     }
   }
 
   /**
-   * Destroy a preview environment by previewId
-   */
-  async destroyPreview(previewId: string): Promise<void>;
-  /**
-   * Destroy a preview environment by PR number (backward compatibility)
+   * Roll a preview back to an earlier revision. Defaults to the revision
+   * deployed before the current one.
    */
-  async destroyPreview(prNumber: number): Promise<void>;
-  async destroyPreview(identifier: string | number): Promise<void> {
-    try {
-      // Support both previewId (string) and prNumber (number) for backward compatibility
-      let preview: IPreview | null;
-      if (typeof identifier === "number") {
-        // Legacy: find by prNumber
-        preview = await Preview.findOne({
-          previewType: PreviewType.PULL_REQUEST,
-          prNumber: identifier,
-        });
-      } else {
-        // New: find by previewId
-        preview = await Preview.findOne({ previewId: identifier });
-      }
-
-      if (!preview) {
-        logger.warn(`Preview ${identifier} not found`);
-        return;
-      }
+  async rollbackPreview(
+    previewId: string,
+    revisionNumber?: number,
+    trigger?: DeploymentTrigger
+  ): Promise<IPreview> {
+    const preview = await Preview.findOne({ previewId });
+    if (!preview) {
+      throw new Error(`Preview ${previewId} not found`);
+    }
 
-      const previewId = preview.previewId;
-      logger.info(`Destroying preview ${previewId}`);
-      await this.logsService.createLog(
-        previewId,
-        "system",
-        `Starting preview destruction`
+    const target =
+      revisionNumber !== undefined
+        ? preview.revisions.find((r) => r.revision === revisionNumber)
+        : preview.revisions
+            .filter((r) => r.revision < (preview.currentRevision ?? 0))
+            .pop();
+    if (!target) {
+      throw new Error(
+        revisionNumber !== undefined
+          ? `Revision ${revisionNumber} not found for preview ${previewId}`
+          : `No earlier revision to roll back to for preview ${previewId}`
       );
+    }
 
-      preview.status = PreviewStatus.DESTROYING;
-      await preview.save();
-
-      // Stop and remove containers
-      await this.stopServices(preview);
-
-      // Remove database
-      if (preview.database) {
-        await this.destroyDatabase(preview);
-      }
-
-      // Remove images
-      for (const service of preview.services) {
-        try {
-          await this.dockerService.removeImage(service.imageTag);
-        } catch (error) {
-          logger.error(`Failed to remove image ${service.imageTag}:`, error);
-        }
-      }
-
-      // Update status
-      preview.status = PreviewStatus.DESTROYED;
-      await preview.save();
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Rolling back to revision ${target.revision} (commit ${target.commitSha.substring(
+        0,
+        7
+      )})`
+    );
 
+    try {
+      await this.deployRevision(preview, target, trigger);
+    } catch (error) {
+      logger.error(`Failed to roll back preview ${previewId}:`, error);
       await this.logsService.createLog(
         previewId,
         "system",
-        `Preview destroyed successfully`
+        `Rollback failed: ${(error as Error).message}`
       );
-      logger.info(`Preview destroyed for ${previewId}`);
-    } catch (error) {
-      logger.error(`Failed to destroy preview ${identifier}:`, error);
       throw error;
     }
+
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Rolled back to revision ${target.revision}`
+    );
+    logger.info(
+      `Preview ${previewId} rolled back to revision ${target.revision}`
+    );
+
+    return preview;
   }
 
   /**
-   * Get preview details by previewId or PR number
+   * Pause a preview: stop its containers but keep them, the database and the
+   * images, so the preview can be resumed with its data intact
    */
-  async getPreview(
-    identifier: string | number
-  ): Promise<PreviewDetails | null> {
-    let preview: IPreview | null;
-    if (typeof identifier === "number") {
-      // Legacy: find by prNumber
-      preview = await Preview.findOne({
-        previewType: PreviewType.PULL_REQUEST,
-        prNumber: identifier,
-      });
-    } else {
-      // New: find by previewId
-      preview = await Preview.findOne({ previewId: identifier });
-    }
-
-    if (!preview) {
-      return null;
-    }
-
-    return this.formatPreviewDetails(preview);
+  async pausePreview(
+    previewId: string,
+    trigger?: DeploymentTrigger,
+    lockWaitMs: number = config.previewLockWaitSeconds * 1000
+  ): Promise<IPreview> {
+    return this.lockService.withLock(
+      previewId,
+      () => this.stopPreview(previewId, PreviewStatus.PAUSED, trigger),
+      lockWaitMs
+    );
   }
 
   /**
-   * List all previews
+   * Put an idle preview to sleep (scale to zero). Like pausing, but the
+   * first request to one of its URLs wakes it up again.
    */
-  async listPreviews(filters?: {
-    status?: PreviewStatus;
-    repoOwner?: string;
-    repoName?: string;
-  }): Promise<PreviewDetails[]> {
-    const query: any = {};
-
-    if (filters?.status) {
-      query.status = filters.status;
-    }
-    if (filters?.repoOwner) {
-      query.repoOwner = filters.repoOwner;
-    }
-    if (filters?.repoName) {
-      query.repoName = filters.repoName;
-    }
+  async sleepPreview(
+    previewId: string,
+    trigger?: DeploymentTrigger
+  ): Promise<IPreview> {
+    return this.lockService.withLock(
+      previewId,
+      () => this.stopPreview(previewId, PreviewStatus.SLEEPING, trigger),
+      config.previewLockWaitSeconds * 1000
+    );
+  }
 
-    const previews = await Preview.find(query).sort({ createdAt: -1 });
-    return previews.map((p) => this.formatPreviewDetails(p));
+  /**
+   * Resume a paused or sleeping preview by starting its containers again
+   */
+  async resumePreview(
+    previewId: string,
+    trigger?: DeploymentTrigger,
+    lockWaitMs: number = config.previewLockWaitSeconds * 1000
+  ): Promise<IPreview> {
+    return this.lockService.withLock(
+      previewId,
+      () => this.startPreview(previewId, trigger),
+      lockWaitMs
+    );
   }
 
   /**
-   * Provision database for preview
+   * Save a running preview's database as a named snapshot, which new
+   * previews of the same owner can start from with database.cloneFrom. The
+   * owner's existing snapshot with the same name is replaced.
    */
-  private async provisionDatabase(
-    preview: IPreview,
-    databaseConfig: any
-  ): Promise<void> {
-    try {
-      const dbName = generateDatabaseName(preview.previewId);
-      await this.logsService.createLog(
-        preview.previewId,
-        "database",
-        `Provisioning ${databaseConfig.type} database...`
-      );
+  async snapshotDatabase(previewId: string, name: string): Promise<void> {
+    await this.lockService.withLock(
+      previewId,
+      async () => {
+        const preview = await Preview.findOne({ previewId });
+        if (!preview) {
+          throw new Error(`Preview ${previewId} not found`);
+        }
+        const databaseUrl = this.getDatabaseUrl(preview.database);
+        if (!preview.database || !databaseUrl) {
+          throw new Error(`Preview ${previewId} has no database`);
+        }
 
-      const provisioner = DBProvisionerFactory.getProvisioner(
-        databaseConfig.type as DatabaseType
-      );
-      const connectionString = await provisioner.createDatabase(
-        preview.previewId,
-        dbName
-      );
+        const userId = preview.userId.toString();
+        const snapshotPath = getSnapshotPath(
+          preview.database.type,
+          name,
+          userId
+        );
+        const partialPath = `${snapshotPath}.partial`;
+        fs.mkdirSync(getSnapshotDir(userId), { recursive: true });
 
-      // Run migrations if specified
-      if (databaseConfig.migrations) {
         await this.logsService.createLog(
-          preview.previewId,
+          previewId,
           "database",
-          `Running migrations...`
+          `Creating snapshot ${name}...`
         );
-        await provisioner.runMigrations(
-          connectionString,
-          databaseConfig.migrations
-        );
-      }
 
-      preview.database = {
-        type: databaseConfig.type,
-        name: dbName,
-        connectionString,
-      };
-      await preview.save();
+        // Dump next to the snapshot first, so a failed dump never replaces it
+        try {
+          await DBProvisionerFactory.getProvisioner(
+            preview.database.type
+          ).createSnapshot(databaseUrl, partialPath);
+          fs.renameSync(partialPath, snapshotPath);
+        } finally {
+          fs.rmSync(partialPath, { force: true });
+        }
 
-      await this.logsService.createLog(
-        preview.previewId,
-        "database",
-        `Database provisioned successfully`
-      );
-    } catch (error) {
-      logger.error(
-        `Failed to provision database for ${preview.previewId}:`,
-        error
-      );
-      throw error;
-    }
+        await this.logsService.createLog(
+          previewId,
+          "database",
+          `Snapshot ${name} created`
+        );
+      },
+      config.previewLockWaitSeconds * 1000
+    );
   }
 
   /**
-   * Destroy database for preview
+   * Run a read-only console query against a preview's database as the
+   * preview's own database user, and record it in the preview's audit log
    */
-  private async destroyDatabase(preview: IPreview): Promise<void> {
-    try {
-      if (!preview.database) return;
+  async queryDatabase(
+    previewId: string,
+    user: IUser,
+    query: DatabaseQuery
+  ): Promise<DatabaseQueryResult> {
+    const preview = await Preview.findOne({ previewId });
+    const databaseUrl = this.getDatabaseUrl(preview?.database);
+    if (!preview?.database || !databaseUrl) {
+      throw new Error(`Preview ${previewId} has no database`);
+    }
 
-      await this.logsService.createLog(
-        preview.previewId,
-        "database",
-        `Destroying database...`
-      );
+    const limit = Math.min(
+      query.limit || config.databaseQueryMaxRows,
+      config.databaseQueryMaxRows
+    );
+    const startedAt = Date.now();
+    let result: DatabaseQueryResult | undefined;
+    let failure: string | undefined;
 
-      const provisioner = DBProvisionerFactory.getProvisioner(
+    try {
+      result = await DBProvisionerFactory.getProvisioner(
         preview.database.type
+      ).runQuery(
+        databaseUrl,
+        query,
+        limit,
+        config.databaseQueryTimeoutSeconds * 1000
       );
-      await provisioner.destroyDatabase(
-        preview.previewId,
-        preview.database.name
-      );
-
-      await this.logsService.createLog(
-        preview.previewId,
-        "database",
-        `Database destroyed`
-      );
+      return result;
     } catch (error) {
-      logger.error(
-        `Failed to destroy database for ${preview.previewId}:`,
-        error
+      // Invalid queries, writes refused by the read-only session, timeouts
+      failure = (error as Error).message;
+      throw new AppError(`Query failed: ${failure}`, 400);
+    } finally {
+      await this.logsService.createLog(
+        previewId,
+        "audit",
+        `Database query by ${user.email}${failure ? " failed" : ""}`,
+        {
+          userId: user._id!.toString(),
+          // Serialized, as Mongo filters have $-prefixed keys
+          query: JSON.stringify(query),
+          rowCount: result?.rowCount,
+          durationMs: Date.now() - startedAt,
+          error: failure,
+        }
       );
-      throw error;
     }
   }
 
   /**
-   * Resolve magic variables like ${API_URL} to actual service URLs
+   * Measure a preview's databases and enforce its plan's size quota on each:
+   * the first time a database is over, a warning is logged; once it has
+   * stayed over for the grace period, it becomes read-only until it shrinks
    */
-  private resolveEnvVariables(
-    env: Record<string, string>,
-    serviceUrls: Record<string, string>,
-    databaseUrl?: string
-  ): Record<string, string> {
-    const resolved: Record<string, string> = {};
-
-    for (const [key, value] of Object.entries(env)) {
-      if (typeof value !== "string") {
-        resolved[key] = value;
-        continue;
-      }
-
-      let resolvedValue = value;
-
-      // Replace ${DATABASE_URL}
-      if (databaseUrl && resolvedValue.includes("${DATABASE_URL}")) {
-        resolvedValue = resolvedValue.replace(
-          /\$\{DATABASE_URL\}/g,
-          databaseUrl
+  async recordDatabaseSize(previewId: string): Promise<void> {
+    await this.lockService.withLock(
+      previewId,
+      async () => {
+        const preview = await Preview.findOne({ previewId });
+        if (!preview) return;
+
+        const quotaBytes = await this.resourceLimitService.getDatabaseQuota(
+          preview.userId
         );
-      }
-
-      // Replace ${SERVICE_NAME_URL} patterns (e.g., ${API_URL}, ${FRONTEND_URL})
-      for (const [serviceName, serviceUrl] of Object.entries(serviceUrls)) {
-        const magicVar = `\${${serviceName.toUpperCase()}_URL}`;
-        if (resolvedValue.includes(magicVar)) {
-          resolvedValue = resolvedValue.replace(
-            new RegExp(`\\$\\{${serviceName.toUpperCase()}_URL\\}`, "g"),
-            serviceUrl
-          );
+        for (const database of this.getDatabases(preview)) {
+          await this.enforceDatabaseQuota(preview, database, quotaBytes);
         }
-      }
-
-      resolved[key] = resolvedValue;
-    }
 
-    return resolved;
+        await preview.save();
+      },
+      config.previewLockWaitSeconds * 1000
+    );
   }
 
   /**
-   * Deploy all services
+   * Record the sizes of a preview's volumes
+   */
+  async recordVolumeSizes(
+    previewId: string,
+    sizes: Map<string, number>
+  ): Promise<void> {
+    const measuredAt = new Date();
+    const preview = await Preview.findOne({ previewId }).select("volumes");
+    for (const volume of preview?.volumes || []) {
+      const sizeBytes = sizes.get(volume.volumeName);
+      if (sizeBytes === undefined) continue;
+
+      // Updated in place, since a deployment may be saving the preview
+      await Preview.updateOne(
+        { previewId, "volumes.volumeName": volume.volumeName },
+        {
+          $set: {
+            "volumes.$.sizeBytes": sizeBytes,
+            "volumes.$.sizeMeasuredAt": measuredAt,
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Diff a running preview's database schema against the schema baseline of
+   * a branch. Returns null when the branch has no baseline.
+   */
+  async getSchemaDiff(
+    previewId: string,
+    baseBranch: string
+  ): Promise<SchemaDiffReport | null> {
+    const preview = await Preview.findOne({ previewId });
+    if (!preview?.database) {
+      throw new Error(`Preview ${previewId} has no database`);
+    }
+
+    const repo = { repoOwner: preview.repoOwner, repoName: preview.repoName };
+    let baseline = await SchemaBaseline.findOne({
+      ...repo,
+      branch: baseBranch,
+    });
+
+    // Branch previews deployed before baselines existed have none yet
+    if (!baseline) {
+      const basePreview = await Preview.findOne({
+        ...repo,
+        previewType: PreviewType.BRANCH,
+        branch: baseBranch,
+        status: PreviewStatus.RUNNING,
+        database: { $exists: true },
+      });
+      if (basePreview) {
+        await this.recordSchemaBaseline(basePreview);
+        baseline = await SchemaBaseline.findOne({
+          ...repo,
+          branch: baseBranch,
+        });
+      }
+    }
+    if (!baseline) {
+      return null;
+    }
+
+    const changes = diffSchemas(
+      baseline.databaseSchema,
+      await this.getDatabaseSchema(preview)
+    );
+    return {
+      base: {
+        branch: baseBranch,
+        commitSha: baseline.commitSha,
+        capturedAt: baseline.updatedAt,
+      },
+      changes,
+      markdown: formatSchemaDiff(changes, baseBranch),
+    };
+  }
+
+  /**
+   * Store the database schema of a branch preview as the baseline that PR
+   * previews targeting the branch are compared against. A failure only
+   * costs the diff, so it does not fail the deployment.
+   */
+  private async recordSchemaBaseline(preview: IPreview): Promise<void> {
+    if (preview.previewType !== PreviewType.BRANCH || !preview.database) {
+      return;
+    }
+
+    try {
+      const databaseSchema = await this.getDatabaseSchema(preview);
+      await SchemaBaseline.findOneAndUpdate(
+        {
+          repoOwner: preview.repoOwner,
+          repoName: preview.repoName,
+          branch: preview.branch,
+        },
+        {
+          databaseType: preview.database.type,
+          commitSha: preview.commitSha,
+          databaseSchema,
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to record schema baseline of ${preview.previewId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Introspect the tables, columns and indexes of a preview's database
+   */
+  private getDatabaseSchema(preview: IPreview): Promise<DatabaseSchema> {
+    return DBProvisionerFactory.getProvisioner(
+      preview.database!.type
+    ).getSchema(this.getDatabaseUrl(preview.database)!);
+  }
+
+  /**
+   * Stop the containers of a running preview and move it to the given
+   * stopped status (paused or sleeping). Must hold the preview lock.
+   */
+  private async stopPreview(
+    previewId: string,
+    stoppedStatus: PreviewStatus.PAUSED | PreviewStatus.SLEEPING,
+    trigger?: DeploymentTrigger
+  ): Promise<IPreview> {
+    const preview = await Preview.findOne({ previewId });
+    if (!preview) {
+      throw new Error(`Preview ${previewId} not found`);
+    }
+    if (preview.status === stoppedStatus) {
+      return preview;
+    }
+    if (
+      preview.status === PreviewStatus.PAUSED ||
+      preview.status === PreviewStatus.SLEEPING
+    ) {
+      // Containers are already stopped
+      preview.status = stoppedStatus;
+      await preview.save();
+      return preview;
+    }
+    if (preview.status !== PreviewStatus.RUNNING) {
+      throw new Error(
+        `Preview ${previewId} is ${preview.status} and cannot be stopped`
+      );
+    }
+
+    const deployment = await this.deploymentService.startDeployment(
+      previewId,
+      DeploymentAction.PAUSE,
+      {
+        commitSha: preview.commitSha,
+        imageTags: Object.fromEntries(
+          preview.services.map((s) => [s.name, s.imageTag])
+        ),
+        trigger,
+      }
+    );
+
+    try {
+      await this.removeCronRuns(preview);
+      for (const service of preview.services) {
+        for (const containerId of getServiceContainerIds(service)) {
+          await this.dockerService.stopContainer(containerId);
+        }
+        for (const replica of service.replicas) {
+          replica.status = ServiceStatus.STOPPED;
+        }
+        service.status = ServiceStatus.STOPPED;
+      }
+      for (const addon of preview.addons) {
+        await this.dockerService.stopContainer(addon.containerId);
+      }
+      for (const database of this.getDatabases(preview)) {
+        if (database.containerId) {
+          await this.dockerService.stopContainer(database.containerId);
+        }
+      }
+
+      preview.status = stoppedStatus;
+      await preview.save();
+    } catch (error) {
+      logger.error(`Failed to stop preview ${previewId}:`, error);
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.FAILED,
+        (error as Error).message
+      );
+      throw error;
+    }
+
+    await this.deploymentService.finishDeployment(
+      deployment,
+      DeploymentOutcome.SUCCEEDED
+    );
+    const action =
+      stoppedStatus === PreviewStatus.SLEEPING ? "put to sleep" : "paused";
+    await this.logsService.createLog(previewId, "system", `Preview ${action}`);
+    logger.info(`Preview ${action}: ${previewId}`);
+
+    return preview;
+  }
+
+  /**
+   * Start the containers of a paused or sleeping preview again, in
+   * dependency order, and wait until each is ready. Must hold the preview lock.
+   */
+  private async startPreview(
+    previewId: string,
+    trigger?: DeploymentTrigger
+  ): Promise<IPreview> {
+    const preview = await Preview.findOne({ previewId });
+    if (!preview) {
+      throw new Error(`Preview ${previewId} not found`);
+    }
+    if (preview.status === PreviewStatus.RUNNING) {
+      return preview;
+    }
+    if (
+      preview.status !== PreviewStatus.PAUSED &&
+      preview.status !== PreviewStatus.SLEEPING
+    ) {
+      throw new Error(
+        `Preview ${previewId} is ${preview.status} and cannot be resumed`
+      );
+    }
+
+    await this.logsService.createLog(previewId, "system", `Resuming preview`);
+
+    const deployment = await this.deploymentService.startDeployment(
+      previewId,
+      DeploymentAction.RESUME,
+      {
+        commitSha: preview.commitSha,
+        imageTags: Object.fromEntries(
+          preview.services.map((s) => [s.name, s.imageTag])
+        ),
+        trigger,
+      }
+    );
+
+    // Service configs (healthchecks, dependencies) of the deployed revision
+    const revision = preview.revisions.find(
+      (r) => r.revision === preview.currentRevision
+    );
+    const serviceConfigs: Record<string, ServiceConfig> = {};
+    for (const service of preview.services) {
+      serviceConfigs[service.name] = revision?.services[service.name] || {};
+    }
+
+    try {
+      await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.DEPLOY,
+        async () => {
+          // Database and addons first, services may connect to them on
+          // startup
+          for (const database of this.getDatabases(preview)) {
+            if (database.containerId) {
+              await this.dedicatedDatabaseService.startServer(
+                database.containerId,
+                database.type
+              );
+            }
+          }
+          for (const addon of preview.addons) {
+            await this.dockerService.startContainer(addon.containerId);
+            await AddonProvisionerFactory.getProvisioner(
+              addon.type
+            ).waitForReady(addon);
+          }
+
+          for (const name of orderServicesByDependencies(serviceConfigs)) {
+            const service = preview.services.find((s) => s.name === name)!;
+            for (const containerId of getServiceContainerIds(service)) {
+              await this.dockerService.startContainer(containerId);
+            }
+            for (const replica of service.replicas) {
+              replica.status = ServiceStatus.STARTING;
+            }
+            service.status = ServiceStatus.STARTING;
+
+            try {
+              await this.waitForServiceReady(
+                preview,
+                service as ServiceDetails,
+                serviceConfigs[name]
+              );
+            } catch (error) {
+              service.status = ServiceStatus.UNHEALTHY;
+              throw error;
+            }
+            service.status = ServiceStatus.RUNNING;
+          }
+        }
+      );
+
+      preview.status = PreviewStatus.RUNNING;
+      preview.lastAccessedAt = new Date();
+      await preview.save();
+    } catch (error) {
+      logger.error(`Failed to resume preview ${previewId}:`, error);
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.FAILED,
+        (error as Error).message
+      );
+      await this.logsService.createLog(
+        previewId,
+        "system",
+        `Preview resume failed: ${(error as Error).message}`
+      );
+      preview.status = PreviewStatus.FAILED;
+      await preview.save();
+      throw error;
+    }
+
+    await this.deploymentService.finishDeployment(
+      deployment,
+      DeploymentOutcome.SUCCEEDED
+    );
+    await this.logsService.createLog(previewId, "system", `Preview resumed`);
+    logger.info(`Preview resumed: ${previewId}`);
+
+    return preview;
+  }
+
+  /**
+   * After a failed recreate update, redeploy the last revision that
+   * succeeded so the preview keeps serving. Blue/green updates never get
+   * here with the preview still updating, as their old containers are kept.
+   */
+  private async rollbackFailedUpdate(previewId: string): Promise<void> {
+    // Reload to see the containers the failed update left behind
+    const preview = await Preview.findOne({ previewId });
+    if (!preview || preview.status !== PreviewStatus.UPDATING) {
+      return;
+    }
+
+    const lastGood = preview.revisions[preview.revisions.length - 1];
+    if (!lastGood) {
+      return;
+    }
+
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Rolling back to last successful revision ${
+        lastGood.revision
+      } (commit ${lastGood.commitSha.substring(0, 7)})`
+    );
+
+    try {
+      await this.deployRevision(preview, lastGood, {
+        type: TriggerType.SYSTEM,
+        event: "auto-rollback",
+      });
+      await this.logsService.createLog(
+        previewId,
+        "system",
+        `Rolled back to revision ${lastGood.revision}`
+      );
+    } catch (error) {
+      logger.error(`Rollback of preview ${previewId} failed:`, error);
+      await this.logsService.createLog(
+        previewId,
+        "system",
+        `Rollback failed: ${(error as Error).message}`
+      );
+      preview.status = PreviewStatus.FAILED;
+      await preview.save();
+    }
+  }
+
+  /**
+   * Replace a preview's containers with the ones of a recorded revision
+   */
+  private async deployRevision(
+    preview: IPreview,
+    revision: IPreview["revisions"][number],
+    trigger?: DeploymentTrigger
+  ): Promise<void> {
+    const deployment = await this.deploymentService.startDeployment(
+      preview.previewId,
+      DeploymentAction.ROLLBACK,
+      {
+        commitSha: revision.commitSha,
+        imageTags: getServiceImageTags(revision.services),
+        trigger,
+      }
+    );
+
+    try {
+      preview.status = PreviewStatus.UPDATING;
+      await preview.save();
+
+      await this.stopServices(preview);
+
+      const imageTags = await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.PULL,
+        () =>
+          this.pullServiceImages(
+            preview.previewId,
+            revision.services,
+            `Pulling Docker images of revision ${revision.revision}...`
+          )
+      );
+
+      await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.DEPLOY,
+        () =>
+          this.deployServices(
+            preview,
+            revision.services,
+            revision.env || {},
+            imageTags
+          )
+      );
+    } catch (error) {
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.FAILED,
+        (error as Error).message
+      );
+      throw error;
+    }
+
+    preview.commitSha = revision.commitSha;
+    this.recordRevision(
+      preview,
+      revision.services,
+      revision.env || {},
+      revision.revision
+    );
+    preview.status = PreviewStatus.RUNNING;
+    preview.lastAccessedAt = new Date();
+    await preview.save();
+
+    await this.deploymentService.finishDeployment(
+      deployment,
+      DeploymentOutcome.SUCCEEDED
+    );
+  }
+
+  /**
+   * Record the deployed services as the preview's newest revision, keeping
+   * at most config.previewRevisionHistory revisions, and schedule its cron
+   * services. The caller saves.
+   */
+  private recordRevision(
+    preview: IPreview,
+    services: Record<string, ServiceConfig>,
+    env: Record<string, string>,
+    rollbackOf?: number
+  ): void {
+    const latest = preview.revisions[preview.revisions.length - 1];
+    const revision = (latest?.revision || 0) + 1;
+
+    preview.revisions.push({
+      revision,
+      commitSha: preview.commitSha,
+      services,
+      env,
+      rollbackOf,
+      deployedAt: new Date(),
+    });
+    preview.currentRevision = revision;
+
+    // Cron services that keep their name keep their last run
+    preview.cronJobs = Object.entries(services)
+      .filter(
+        ([, serviceConfig]) =>
+          getServiceKind(serviceConfig) === ServiceKind.CRON
+      )
+      .map(([name, serviceConfig]) => {
+        const previous = preview.cronJobs.find((job) => job.name === name);
+        return {
+          name,
+          schedule: serviceConfig.schedule!,
+          imageTag: serviceConfig.imageTag!,
+          lastRunAt: previous?.lastRunAt,
+          lastExitCode: previous?.lastExitCode,
+          runningSince: previous?.runningSince,
+        };
+      });
+
+    const excess = preview.revisions.length - config.previewRevisionHistory;
+    if (excess > 0) {
+      preview.revisions.splice(0, excess);
+    }
+  }
+
+  /**
+   * Blue/green update: start the new containers next to the old ones under
+   * the same Traefik router, and remove the old ones only once the new ones
+   * are ready. If the new containers fail, the old ones keep serving.
+   */
+  private async blueGreenUpdate(
+    preview: IPreview,
+    previewConfig: PreviewConfig,
+    deployment: IDeployment,
+    provisioned: IPreviewDatabase[],
+    checkCancelled?: () => Promise<void>
+  ): Promise<IPreview> {
+    const previewId = preview.previewId;
+    const previousCommit = preview.commitSha;
+    const fromSha = previousCommit.substring(0, 7);
+    const toSha = previewConfig.commitSha.substring(0, 7);
+    const previousServices: ServiceDetails[] = preview.services.map((s) => ({
+      name: s.name,
+      kind: s.kind || ServiceKind.WEB,
+      containerId: s.containerId,
+      replicas: s.replicas.map((r) => ({
+        containerId: r.containerId,
+        status: r.status as ServiceStatus,
+      })),
+      imageTag: s.imageTag,
+      port: s.port,
+      url: s.url,
+      status: s.status as ServiceStatus,
+    }));
+
+    await this.logsService.createLog(
+      previewId,
+      "deploy",
+      `Blue/green update: ${fromSha} -> ${toSha}`
+    );
+
+    preview.status = PreviewStatus.UPDATING;
+    await preview.save();
+
+    let newServices: ServiceDetails[];
+    try {
+      await checkCancelled?.();
+      const imageTags = await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.PULL,
+        () =>
+          this.pullServiceImages(
+            previewId,
+            previewConfig.services,
+            "Pulling updated Docker images from registry..."
+          )
+      );
+
+      // Old containers keep serving while the schema changes
+      if (
+        getDatabaseConfigs(previewConfig).some(
+          (c) => getMigrationsConfig(c).command
+        )
+      ) {
+        await checkCancelled?.();
+        await this.deploymentService.timeStep(
+          deployment,
+          DeploymentStep.MIGRATE,
+          () =>
+            this.runMigrationCommands(
+              preview,
+              previewConfig,
+              imageTags,
+              provisioned
+            )
+        );
+      }
+
+      // Start new containers and wait until they are ready
+      await checkCancelled?.();
+      newServices = await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.DEPLOY,
+        () =>
+          this.startServices(
+            preview,
+            previewConfig.services,
+            previewConfig.env || {},
+            imageTags,
+            previousServices
+          )
+      );
+    } catch (error) {
+      await this.logsService.createLog(
+        previewId,
+        "deploy",
+        `Update to commit ${toSha} failed, still serving commit ${fromSha}: ${
+          (error as Error).message
+        }`,
+        {
+          failedCommitSha: previewConfig.commitSha,
+          servingCommitSha: previousCommit,
+        }
+      );
+
+      preview.status = PreviewStatus.RUNNING;
+      await preview.save();
+      throw error;
+    }
+
+    // Switch over to the new containers
+    preview.services = newServices;
+    preview.commitSha = previewConfig.commitSha;
+    this.recordRevision(
+      preview,
+      previewConfig.services,
+      previewConfig.env || {}
+    );
+    await preview.save();
+
+    await this.logsService.createLog(
+      previewId,
+      "deploy",
+      `Traffic switched to commit ${toSha}`
+    );
+
+    // Remove the old containers now that the new ones are serving
+    await this.stopServices(preview, previousServices);
+
+    preview.status = PreviewStatus.RUNNING;
+    preview.lastAccessedAt = new Date();
+    await preview.save();
+
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Preview updated successfully`
+    );
+    logger.info(`Preview updated for ${previewId} (blue/green)`);
+
+    return preview;
+  }
+
+  /**
+   * Destroy a preview environment by previewId
+   */
+  async destroyPreview(
+    previewId: string,
+    trigger?: DeploymentTrigger
+  ): Promise<void>;
+  /**
+   * Destroy a preview environment by PR number (backward compatibility)
+   */
+  async destroyPreview(
+    prNumber: number,
+    trigger?: DeploymentTrigger
+  ): Promise<void>;
+  async destroyPreview(
+    identifier: string | number,
+    trigger?: DeploymentTrigger
+  ): Promise<void> {
+    try {
+      // Support both previewId (string) and prNumber (number) for backward compatibility
+      let preview: IPreview | null;
+      if (typeof identifier === "number") {
+        // Legacy: find by prNumber
+        preview = await Preview.findOne({
+          previewType: PreviewType.PULL_REQUEST,
+          prNumber: identifier,
+        });
+      } else {
+        // New: find by previewId
+        preview = await Preview.findOne({ previewId: identifier });
+      }
+
+      if (!preview) {
+        logger.warn(`Preview ${identifier} not found`);
+        return;
+      }
+
+      // Wait for any in-flight deployment of this preview to finish
+      await this.lockService.withLock(
+        preview.previewId,
+        () => this.teardownPreview(preview!.previewId, trigger),
+        config.previewLockWaitSeconds * 1000
+      );
+    } catch (error) {
+      logger.error(`Failed to destroy preview ${identifier}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tear down a preview's containers, database and images.
+   * Callers must hold the preview lock.
+   */
+  private async teardownPreview(
+    previewId: string,
+    trigger?: DeploymentTrigger
+  ): Promise<void> {
+    // Reload, since a deployment may have finished while we waited for the lock
+    const preview = await Preview.findOne({ previewId });
+    if (!preview) {
+      return;
+    }
+
+    logger.info(`Destroying preview ${previewId}`);
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Starting preview destruction`
+    );
+
+    const deployment = await this.deploymentService.startDeployment(
+      previewId,
+      DeploymentAction.DESTROY,
+      {
+        commitSha: preview.commitSha,
+        imageTags: Object.fromEntries(
+          preview.services.map((s) => [s.name, s.imageTag])
+        ),
+        trigger,
+      }
+    );
+
+    try {
+      preview.status = PreviewStatus.DESTROYING;
+      await preview.save();
+
+      await this.deploymentService.timeStep(
+        deployment,
+        DeploymentStep.TEARDOWN,
+        async () => {
+          // Stop and remove containers, then their network
+          await this.removeCronRuns(preview);
+          await this.stopServices(preview);
+          await this.destroyAddons(preview);
+          await this.dockerService.removeNetwork(
+            generateNetworkName(previewId)
+          );
+          await this.removeVolumes(preview);
+
+          // Remove databases
+          for (const database of this.getDatabases(preview)) {
+            await this.destroyDatabase(preview, database);
+          }
+
+          // Remove images
+          for (const { imageTag } of [
+            ...preview.services,
+            ...preview.cronJobs,
+          ]) {
+            try {
+              await this.dockerService.removeImage(imageTag);
+            } catch (error) {
+              logger.error(`Failed to remove image ${imageTag}:`, error);
+            }
+          }
+        }
+      );
+
+      // Update status
+      preview.status = PreviewStatus.DESTROYED;
+      await preview.save();
+    } catch (error) {
+      await this.deploymentService.finishDeployment(
+        deployment,
+        DeploymentOutcome.FAILED,
+        (error as Error).message
+      );
+      throw error;
+    }
+
+    await this.deploymentService.finishDeployment(
+      deployment,
+      DeploymentOutcome.SUCCEEDED
+    );
+
+    await this.logsService.createLog(
+      previewId,
+      "system",
+      `Preview destroyed successfully`
+    );
+    logger.info(`Preview destroyed for ${previewId}`);
+  }
+
+  /**
+   * Get preview details by previewId or PR number
+   */
+  async getPreview(
+    identifier: string | number
+  ): Promise<PreviewDetails | null> {
+    let preview: IPreview | null;
+    if (typeof identifier === "number") {
+      // Legacy: find by prNumber
+      preview = await Preview.findOne({
+        previewType: PreviewType.PULL_REQUEST,
+        prNumber: identifier,
+      });
+    } else {
+      // New: find by previewId
+      preview = await Preview.findOne({ previewId: identifier });
+    }
+
+    if (!preview) {
+      return null;
+    }
+
+    return this.formatPreviewDetails(preview);
+  }
+
+  /**
+   * List all previews
+   */
+  async listPreviews(filters?: {
+    status?: PreviewStatus;
+    repoOwner?: string;
+    repoName?: string;
+  }): Promise<PreviewDetails[]> {
+    const query: any = {};
+
+    if (filters?.status) {
+      query.status = filters.status;
+    }
+    if (filters?.repoOwner) {
+      query.repoOwner = filters.repoOwner;
+    }
+    if (filters?.repoName) {
+      query.repoName = filters.repoName;
+    }
+
+    const previews = await Preview.find(query).sort({ createdAt: -1 });
+    return previews.map((p) => this.formatPreviewDetails(p));
+  }
+
+  /**
+   * Provision the database, or a named database of the databases section,
+   * for a preview
+   */
+  private async provisionDatabase(
+    preview: IPreview,
+    databaseConfig: DatabaseConfig & { key?: string }
+  ): Promise<void> {
+    const { key } = databaseConfig;
+    try {
+      const databaseId = getDatabaseId(preview.previewId, key);
+      const dbName = generateDatabaseName(databaseId);
+      const mode = databaseConfig.mode || DatabaseMode.SHARED;
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `Provisioning ${databaseConfig.type} database${key ? ` ${key}` : ""}...`
+      );
+
+      let provisioner = DBProvisionerFactory.getProvisioner(
+        databaseConfig.type
+      );
+      let server: DedicatedDatabaseServer | undefined;
+      if (mode === DatabaseMode.DEDICATED) {
+        await this.ensurePreviewNetwork(preview);
+        server = await this.dedicatedDatabaseService.createServer(
+          preview.previewId,
+          databaseConfig.type,
+          databaseConfig.version,
+          key
+        );
+        await this.logsService.createLog(
+          preview.previewId,
+          "database",
+          `Started dedicated database server ${server.image}`
+        );
+        provisioner = DBProvisionerFactory.createProvisioner(
+          databaseConfig.type,
+          server
+        );
+      }
+
+      try {
+        const { user, password, connectionString } =
+          await provisioner.createDatabase(databaseId, dbName);
+
+        // Start from a snapshot, which migrations then bring up to date
+        if (databaseConfig.cloneFrom) {
+          await this.logsService.createLog(
+            preview.previewId,
+            "database",
+            `Restoring snapshot ${databaseConfig.cloneFrom}...`
+          );
+          const snapshotPath = getSnapshotPath(
+            databaseConfig.type,
+            databaseConfig.cloneFrom,
+            preview.userId.toString()
+          );
+          if (!fs.existsSync(snapshotPath)) {
+            throw new Error(
+              `Database snapshot not found: ${databaseConfig.cloneFrom}`
+            );
+          }
+          await provisioner.restoreSnapshot(connectionString, snapshotPath);
+        }
+
+        // Run migrations if specified
+        const migrations = getMigrationsConfig(databaseConfig);
+        if (migrations.path) {
+          await this.logsService.createLog(
+            preview.previewId,
+            "database",
+            `Running migrations...`
+          );
+          const applied = await provisioner.runMigrations(
+            connectionString,
+            migrations.path
+          );
+          await this.logsService.createLog(
+            preview.previewId,
+            "database",
+            `Applied ${applied.length} migrations`
+          );
+        }
+
+        // A migrations command runs once images are pulled, and seed data
+        // waits for the schema it creates
+        if (databaseConfig.seed && !migrations.command) {
+          await this.logsService.createLog(
+            preview.previewId,
+            "database",
+            `Loading seed data...`
+          );
+          await provisioner.seedDatabase(connectionString, databaseConfig.seed);
+        }
+
+        const database: IPreviewDatabase = {
+          key,
+          type: databaseConfig.type,
+          mode,
+          name: dbName,
+          user,
+          encryptedPassword: encrypt(password, config.encryptionKey),
+          // Stored without the password, which is only kept encrypted
+          connectionString: withConnectionPassword(connectionString, ""),
+          containerId: server?.containerId,
+          image: server?.image,
+          // Needed to restrict the database once it exceeds its quota
+          encryptedAdminPassword:
+            server && encrypt(server.password, config.encryptionKey),
+        };
+        if (key) {
+          preview.databases.push(database);
+        } else {
+          preview.database = database;
+        }
+        await preview.save();
+      } catch (error) {
+        if (server) {
+          await this.dedicatedDatabaseService
+            .removeServer(server.containerId)
+            .catch(() => undefined);
+        }
+        throw error;
+      } finally {
+        // Connections to a dedicated server are only needed here
+        if (server) {
+          await provisioner.close();
+        }
+      }
+
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `Database${key ? ` ${key}` : ""} provisioned successfully`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to provision database${key ? ` ${key}` : ""} for ${preview.previewId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Destroy a database of a preview
+   */
+  private async destroyDatabase(
+    preview: IPreview,
+    database: IPreviewDatabase
+  ): Promise<void> {
+    const label = database.key ? ` ${database.key}` : "";
+    try {
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `Destroying database${label}...`
+      );
+
+      if (database.containerId) {
+        // The database goes away with its dedicated server
+        await this.dedicatedDatabaseService.removeServer(database.containerId);
+      } else {
+        const provisioner = DBProvisionerFactory.getProvisioner(database.type);
+        await provisioner.destroyDatabase(
+          getDatabaseId(preview.previewId, database.key),
+          database.name
+        );
+      }
+
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `Database${label} destroyed`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to destroy database${label} for ${preview.previewId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Provision the named databases added to the databases section and destroy
+   * the removed ones, as well as the ones whose type or mode changed. Kept
+   * databases get the migration files added since the last deployment.
+   * Returns the databases provisioned.
+   */
+  private async syncDatabases(
+    preview: IPreview,
+    databases: Record<string, DatabaseConfig> = {}
+  ): Promise<IPreviewDatabase[]> {
+    for (const database of [...preview.databases]) {
+      const wanted = databases[database.key!];
+      if (
+        wanted &&
+        wanted.type === database.type &&
+        (wanted.mode || DatabaseMode.SHARED) ===
+          (database.mode || DatabaseMode.SHARED)
+      ) {
+        continue;
+      }
+
+      await this.destroyDatabase(preview, database);
+      preview.databases = preview.databases.filter(
+        (d) => d.key !== database.key
+      );
+      await preview.save();
+    }
+
+    const provisioned: IPreviewDatabase[] = [];
+    for (const [key, databaseConfig] of Object.entries(databases)) {
+      const existing = preview.databases.find((d) => d.key === key);
+      if (!existing) {
+        await this.provisionDatabase(preview, { ...databaseConfig, key });
+        provisioned.push(preview.databases.find((d) => d.key === key)!);
+        continue;
+      }
+
+      const { path } = getMigrationsConfig(databaseConfig);
+      if (path) {
+        await this.runMigrationFiles(preview, existing, path);
+      }
+    }
+
+    return provisioned;
+  }
+
+  /**
+   * Run the migration files a preview database has not seen yet
+   */
+  private async runMigrationFiles(
+    preview: IPreview,
+    database: IPreviewDatabase,
+    migrationsPath: string
+  ): Promise<void> {
+    await this.logsService.createLog(
+      preview.previewId,
+      "database",
+      `Running migrations${database.key ? ` of database ${database.key}` : ""}...`
+    );
+
+    const provisioner = DBProvisionerFactory.getProvisioner(database.type);
+    const applied = await provisioner.runMigrations(
+      this.getDatabaseUrl(database)!,
+      migrationsPath
+    );
+
+    await this.logsService.createLog(
+      preview.previewId,
+      "database",
+      applied.length
+        ? `Applied ${applied.length} migrations: ${applied.join(", ")}`
+        : "No new migrations"
+    );
+  }
+
+  /**
+   * Run the migrations command of every database that has one, then load
+   * the seed data of the given databases, which were just provisioned
+   */
+  private async runMigrationCommands(
+    preview: IPreview,
+    previewConfig: PreviewConfig,
+    imageTags: Record<string, string>,
+    provisioned: IPreviewDatabase[]
+  ): Promise<void> {
+    for (const databaseConfig of getDatabaseConfigs(previewConfig)) {
+      const database = databaseConfig.key
+        ? preview.databases.find((d) => d.key === databaseConfig.key)
+        : preview.database;
+      if (!database || !getMigrationsConfig(databaseConfig).command) {
+        continue;
+      }
+
+      await this.runMigrationCommand(
+        preview,
+        previewConfig,
+        imageTags,
+        database,
+        databaseConfig
+      );
+
+      if (
+        databaseConfig.seed &&
+        provisioned.some((d) => d.name === database.name)
+      ) {
+        await this.logsService.createLog(
+          preview.previewId,
+          "database",
+          `Loading seed data...`
+        );
+        await DBProvisionerFactory.getProvisioner(database.type).seedDatabase(
+          this.getDatabaseUrl(database)!,
+          databaseConfig.seed
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a database's migrations command (e.g. `npx prisma migrate deploy`)
+   * in a one-off container of a service's image, with DATABASE_URL set to
+   * that database and the service's env. The migration tool tracks what it
+   * has applied.
+   */
+  private async runMigrationCommand(
+    preview: IPreview,
+    previewConfig: PreviewConfig,
+    imageTags: Record<string, string>,
+    database: IPreviewDatabase,
+    databaseConfig: DatabaseConfig
+  ): Promise<void> {
+    const previewId = preview.previewId;
+    const { command, service } = getMigrationsConfig(databaseConfig);
+    if (!command) return;
+
+    const serviceName = service || Object.keys(previewConfig.services)[0];
+    const imageTag = imageTags[serviceName];
+    if (!imageTag) {
+      throw new Error(
+        `Image tag not found for migrations service ${serviceName}`
+      );
+    }
+
+    await this.logsService.createLog(
+      previewId,
+      "database",
+      `Running migrations command in ${serviceName} image: ${command}`
+    );
+
+    // Same environment as the service's containers get, except that
+    // DATABASE_URL is the database being migrated
+    const addonEnv = this.getAddonEnv(preview);
+    const databaseUrls = this.getNamedDatabaseUrls(preview);
+    const databaseUrl = this.getDatabaseUrl(database)!;
+    const env: Record<string, string> = {
+      ...addonEnv,
+      ...this.getNamedDatabaseEnv(databaseUrls),
+      ...previewConfig.env,
+    };
+    env.DATABASE_URL = databaseUrl;
+    Object.assign(env, previewConfig.services[serviceName].env);
+
+    await this.ensurePreviewNetwork(preview);
+    // Left behind if the backend stopped during an earlier run
+    const containers = await this.dockerService.listContainersByLabel(
+      "previewcloud.previewId",
+      previewId
+    );
+    for (const container of containers) {
+      if (container.Labels["previewcloud.migrate"]) {
+        await this.dockerService.removeContainer(container.Id, true);
+      }
+    }
+
+    const { exitCode, output } = await this.dockerService.runContainer(
+      {
+        name: generateContainerName(previewId, "migrate"),
+        image: imageTag,
+        env: this.resolveEnvVariables(
+          env,
+          {},
+          databaseUrl,
+          addonEnv,
+          databaseUrls
+        ),
+        labels: {
+          ...this.traefikService.getPreviewLabels(previewId),
+          "previewcloud.migrate": "true",
+        },
+        command: ["sh", "-c", command],
+        networks: [generateNetworkName(previewId), config.traefikNetwork],
+        binds: this.getDatabaseBinds(preview),
+      },
+      config.migrationTimeoutSeconds
+    );
+
+    if (output.trim()) {
+      await this.logsService.createLog(previewId, "database", output.trim());
+    }
+
+    if (exitCode === null) {
+      throw new Error(
+        `Migrations command timed out after ${config.migrationTimeoutSeconds}s`
+      );
+    }
+    if (exitCode !== 0) {
+      throw new Error(`Migrations command exited with code ${exitCode}`);
+    }
+
+    await this.logsService.createLog(
+      previewId,
+      "database",
+      "Migrations command completed"
+    );
+  }
+
+  /**
+   * Create the named volumes the services use, keeping existing ones and
+   * their data. Volumes no longer used stay until the preview is destroyed.
+   */
+  private async ensureVolumes(
+    preview: IPreview,
+    services: Record<string, ServiceConfig>
+  ): Promise<void> {
+    const names = new Set(
+      Object.values(services).flatMap((serviceConfig) =>
+        (serviceConfig.volumes || []).map(
+          (volume) => parseServiceVolume(volume)!.name
+        )
+      )
+    );
+
+    let added = false;
+    for (const name of names) {
+      const volumeName = generateVolumeName(preview.previewId, name);
+      await this.dockerService.createVolume(volumeName, {
+        ...this.traefikService.getPreviewLabels(preview.previewId),
+        "previewcloud.volume": name,
+      });
+      if (!preview.volumes.some((volume) => volume.name === name)) {
+        preview.volumes.push({ name, volumeName });
+        added = true;
+      }
+    }
+
+    if (added) {
+      await preview.save();
+    }
+  }
+
+  /**
+   * Mounts of a service's volumes, for its containers
+   */
+  private getVolumeBinds(
+    preview: IPreview,
+    serviceConfig: ServiceConfig
+  ): string[] {
+    return (serviceConfig.volumes || []).map((volume) => {
+      const { name, path } = parseServiceVolume(volume)!;
+      return `${generateVolumeName(preview.previewId, name)}:${path}`;
+    });
+  }
+
+  /**
+   * Remove every volume of a preview, including ones left behind by
+   * earlier runs
+   */
+  private async removeVolumes(preview: IPreview): Promise<void> {
+    const volumes = await this.dockerService.listVolumesByLabel(
+      "previewcloud.previewId",
+      preview.previewId
+    );
+    for (const volume of volumes) {
+      await this.dockerService.removeVolume(volume.Name);
+    }
+    preview.volumes = [];
+  }
+
+  /**
+   * Create the preview's own network, on which its services and addons
+   * reach each other by name
+   */
+  private async ensurePreviewNetwork(preview: IPreview): Promise<void> {
+    await this.dockerService.createNetwork(
+      generateNetworkName(preview.previewId),
+      this.traefikService.getPreviewLabels(preview.previewId)
+    );
+  }
+
+  /**
+   * Start the declared addons that are not running yet and remove the ones
+   * no longer declared or declared with another version
+   */
+  private async syncAddons(
+    preview: IPreview,
+    addons?: (AddonType | AddonConfig)[]
+  ): Promise<void> {
+    const desired = getAddonConfigs(addons);
+    const kept: AddonDetails[] = [];
+
+    for (const addon of preview.addons) {
+      const wanted = desired.find((d) => d.type === addon.type);
+      if (
+        wanted &&
+        (!wanted.version || addon.image.endsWith(`:${wanted.version}`))
+      ) {
+        kept.push(addon);
+        continue;
+      }
+
+      await this.logsService.createLog(
+        preview.previewId,
+        "deploy",
+        `Removing addon: ${addon.type}`
+      );
+      await AddonProvisionerFactory.getProvisioner(addon.type).destroyAddon(
+        addon
+      );
+    }
+
+    if (desired.some((d) => !kept.some((k) => k.type === d.type))) {
+      await this.ensurePreviewNetwork(preview);
+    }
+
+    const created: AddonDetails[] = [];
+    try {
+      for (const addon of desired) {
+        if (kept.some((k) => k.type === addon.type)) continue;
+
+        await this.logsService.createLog(
+          preview.previewId,
+          "deploy",
+          `Starting addon: ${addon.type}`
+        );
+        const provisioner = AddonProvisionerFactory.getProvisioner(addon.type);
+        created.push(await provisioner.createAddon(preview.previewId, addon));
+      }
+    } finally {
+      // Track what is running, so teardown removes it even after a failure
+      preview.addons = [...kept, ...created] as IPreview["addons"];
+      await preview.save();
+    }
+  }
+
+  /**
+   * Remove all addon containers of a preview
+   */
+  private async destroyAddons(preview: IPreview): Promise<void> {
+    for (const addon of preview.addons) {
+      try {
+        await AddonProvisionerFactory.getProvisioner(addon.type).destroyAddon(
+          addon
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to remove addon ${addon.type} of ${preview.previewId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Measure one database of a preview and update its quota state
+   */
+  private async enforceDatabaseQuota(
+    preview: IPreview,
+    database: IPreviewDatabase,
+    quotaBytes: number
+  ): Promise<void> {
+    const databaseUrl = this.getDatabaseUrl(database);
+    if (!databaseUrl) return;
+
+    const sizeBytes = await DBProvisionerFactory.getProvisioner(
+      database.type
+    ).getDatabaseSize(databaseUrl);
+    database.sizeBytes = sizeBytes;
+    database.sizeMeasuredAt = new Date();
+
+    const label = database.key ? `Database ${database.key}` : "Database";
+    const usage = `${formatBytes(sizeBytes)} of ${formatBytes(quotaBytes)}`;
+    if (sizeBytes <= quotaBytes) {
+      if (database.restricted) {
+        await this.setDatabaseReadOnly(preview, database, false);
+        await this.logsService.createLog(
+          preview.previewId,
+          "database",
+          `${label} is back under its quota (${usage}) and writable again`
+        );
+      }
+      database.quotaExceededAt = undefined;
+      database.restricted = undefined;
+    } else if (!database.quotaExceededAt) {
+      database.quotaExceededAt = new Date();
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `Warning: ${label.toLowerCase()} exceeds its plan's quota (${usage}). It becomes read-only in ${config.databaseQuotaGraceMinutes} minutes unless it shrinks.`,
+        { sizeBytes, quotaBytes }
+      );
+    } else if (
+      !database.restricted &&
+      Date.now() - database.quotaExceededAt.getTime() >=
+        config.databaseQuotaGraceMinutes * 60 * 1000
+    ) {
+      await this.setDatabaseReadOnly(preview, database, true);
+      database.restricted = true;
+      await this.logsService.createLog(
+        preview.previewId,
+        "database",
+        `${label} is read-only: it exceeds its plan's quota (${usage})`,
+        { sizeBytes, quotaBytes }
+      );
+    }
+  }
+
+  /**
+   * The database and the named databases of a preview
+   */
+  private getDatabases(preview: IPreview): IPreviewDatabase[] {
+    return [
+      ...(preview.database?.name ? [preview.database] : []),
+      ...preview.databases,
+    ];
+  }
+
+  /**
+   * Mounts of a preview's SQLite databases, for its containers
+   */
+  private getDatabaseBinds(preview: IPreview): string[] {
+    return this.getDatabases(preview)
+      .filter((database) => database.type === DatabaseType.SQLITE)
+      .map((database) => getSqliteBind(database.name));
+  }
+
+  /**
+   * Connection string of a preview database's user, with its password
+   */
+  private getDatabaseUrl(database?: IPreviewDatabase): string | undefined {
+    if (!database?.connectionString) return undefined;
+
+    // Databases provisioned before per-preview users embed the password
+    if (!database.encryptedPassword) return database.connectionString;
+
+    return withConnectionPassword(
+      database.connectionString,
+      decrypt(database.encryptedPassword, config.encryptionKey)
+    );
+  }
+
+  /**
+   * Stop or allow writes to a preview's database, as the admin of the
+   * server it lives on
+   */
+  private async setDatabaseReadOnly(
+    preview: IPreview,
+    database: IPreviewDatabase,
+    readOnly: boolean
+  ): Promise<void> {
+    const databaseId = getDatabaseId(preview.previewId, database.key);
+    // SQLite databases have no users, only files
+    if (database.user === undefined) {
+      throw new Error(
+        "Database was provisioned without its own user and cannot be restricted"
+      );
+    }
+
+    if (!database.containerId) {
+      await DBProvisionerFactory.getProvisioner(database.type).setReadOnly(
+        databaseId,
+        database.name,
+        readOnly
+      );
+      return;
+    }
+
+    if (!database.encryptedAdminPassword) {
+      throw new Error(
+        "Dedicated database server was started without a stored admin password and cannot be restricted"
+      );
+    }
+    const provisioner = DBProvisionerFactory.createProvisioner(
+      database.type,
+      await this.dedicatedDatabaseService.getServer(
+        database.containerId,
+        database.type,
+        decrypt(database.encryptedAdminPassword, config.encryptionKey)
+      )
+    );
+    try {
+      await provisioner.setReadOnly(databaseId, database.name, readOnly);
+    } finally {
+      await provisioner.close();
+    }
+  }
+
+  /**
+   * Connection strings of the named databases of a preview by key
+   */
+  private getNamedDatabaseUrls(preview: IPreview): Record<string, string> {
+    return Object.fromEntries(
+      preview.databases.map((database) => [
+        database.key!,
+        this.getDatabaseUrl(database)!,
+      ])
+    );
+  }
+
+  /**
+   * Env vars of the named databases, e.g. EVENTS_DATABASE_URL
+   */
+  private getNamedDatabaseEnv(
+    databaseUrls: Record<string, string>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(databaseUrls).map(([key, url]) => [
+        `${key.toUpperCase()}_DATABASE_URL`,
+        url,
+      ])
+    );
+  }
+
+  /**
+   * Connection env vars of all addons of a preview, e.g. REDIS_URL
+   */
+  private getAddonEnv(preview: IPreview): Record<string, string> {
+    return Object.assign({}, ...preview.addons.map((addon) => addon.env));
+  }
+
+  /**
+   * Resolve magic variables like ${API_URL} to actual service URLs
+   */
+  private resolveEnvVariables(
+    env: Record<string, string>,
+    serviceUrls: Record<string, string>,
+    databaseUrl?: string,
+    addonEnv: Record<string, string> = {},
+    databaseUrls: Record<string, string> = {}
+  ): Record<string, string> {
+    const resolved: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(env)) {
+      if (typeof value !== "string") {
+        resolved[key] = value;
+        continue;
+      }
+
+      let resolvedValue = value;
+
+      // Replace ${DATABASE_URL}
+      if (databaseUrl && resolvedValue.includes("${DATABASE_URL}")) {
+        resolvedValue = resolvedValue.replace(
+          /\$\{DATABASE_URL\}/g,
+          databaseUrl
+        );
+      }
+
+      // Replace ${DATABASE_URL_<NAME>} of named databases
+      for (const [key, url] of Object.entries(databaseUrls)) {
+        resolvedValue = resolvedValue
+          .split(`\${DATABASE_URL_${key.toUpperCase()}}`)
+          .join(url);
+      }
+
+      // Replace addon connection variables (e.g., ${REDIS_URL})
+      for (const [name, addonValue] of Object.entries(addonEnv)) {
+        resolvedValue = resolvedValue.split(`\${${name}}`).join(addonValue);
+      }
+
+      // Replace ${SERVICE_NAME_URL} patterns (e.g., ${API_URL}, ${FRONTEND_URL})
+      for (const [serviceName, serviceUrl] of Object.entries(serviceUrls)) {
+        const magicVar = `\${${serviceName.toUpperCase()}_URL}`;
+        if (resolvedValue.includes(magicVar)) {
+          resolvedValue = resolvedValue.replace(
+            new RegExp(`\\$\\{${serviceName.toUpperCase()}_URL\\}`, "g"),
+            serviceUrl
+          );
+        }
+      }
+
+      resolved[key] = resolvedValue;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Pull the pre-built image of every service
+   */
+  private async pullServiceImages(
+    previewId: string,
+    services: Record<string, any>,
+    message: string
+  ): Promise<Record<string, string>> {
+    await this.logsService.createLog(previewId, "system", message);
+
+    // Extract image tags from service configs
+    const imageTags: Record<string, string> = {};
+    for (const [serviceName, serviceConfig] of Object.entries(services)) {
+      if (serviceConfig.imageTag) {
+        imageTags[serviceName] = serviceConfig.imageTag;
+        // Pull image from registry
+        await this.logsService.createLog(
+          previewId,
+          "build",
+          `Pulling image: ${serviceConfig.imageTag}`
+        );
+        await this.dockerService.pullImage(serviceConfig.imageTag);
+      } else {
+        throw new Error(
+          `Service ${serviceName} must have imageTag. Images should be built by GitHub Action.`
+        );
+      }
+    }
+
+    return imageTags;
+  }
+
+  /**
+   * Deploy all services
    */
   private async deployServices(
     preview: IPreview,
@@ -522,123 +2374,666 @@ export class PreviewService {
     env: Record<string, string>,
     imageTags: Record<string, string>
   ): Promise<void> {
-    const serviceList = [];
+    preview.services = await this.startServices(
+      preview,
+      services,
+      env,
+      imageTags
+    );
+    await preview.save();
+  }
 
-    // First, generate all service URLs so we can resolve magic variables
-    const serviceUrls: Record<string, string> = {};
-    for (const serviceName of Object.keys(services)) {
-      serviceUrls[serviceName] = this.traefikService.generateServiceUrl(
-        preview.previewId,
-        preview.repoOwner,
-        serviceName
-      );
-    }
+  /**
+   * Create and start a container for every service and wait until each one
+   * is ready. Services start once their dependencies are started (or ready,
+   * for `condition: healthy`); independent services start in parallel.
+   * When previous services are given (blue/green), containers started by a
+   * failed call are removed again.
+   */
+  private async startServices(
+    preview: IPreview,
+    services: Record<string, any>,
+    env: Record<string, string>,
+    imageTags: Record<string, string>,
+    previousServices?: ServiceDetails[]
+  ): Promise<ServiceDetails[]> {
+    const serviceList: ServiceDetails[] = [];
+
+    await this.ensurePreviewNetwork(preview);
+    await this.ensureVolumes(preview, services);
+
+    // Cron services only run on their schedule, see runCronJob
+    services = getLongRunningServices(services);
+
+    // First, generate all service URLs so we can resolve magic variables.
+    const serviceUrls = this.getServiceUrls(preview, services);
+
+    // Track containers on the preview as they start, unless the previous
+    // containers are still the ones being served (blue/green)
+    let saving = Promise.resolve();
+    const trackServices = (): Promise<void> => {
+      if (previousServices) return Promise.resolve();
+      saving = saving.then(() => this.saveServices(preview, serviceList));
+      return saving;
+    };
 
-    for (const [serviceName, serviceConfig] of Object.entries(services)) {
-      try {
-        await this.logsService.createLog(
-          preview.previewId,
-          "deploy",
-          `Deploying service: ${serviceName}`
+    const started: Record<string, Promise<ServiceDetails>> = {};
+    const ready: Record<string, Promise<void>> = {};
+
+    for (const serviceName of orderServicesByDependencies(services)) {
+      const serviceConfig: ServiceConfig = services[serviceName];
+      const dependencies = getServiceDependencies(serviceConfig);
+
+      started[serviceName] = (async () => {
+        await Promise.all(
+          dependencies.map((dependency) =>
+            dependency.condition === DependencyCondition.HEALTHY
+              ? ready[dependency.service]
+              : started[dependency.service]
+          )
         );
 
-        // Generate container name
-        const containerName = generateContainerName(
-          preview.previewId,
-          serviceName
+        const service = await this.startService(
+          preview,
+          serviceName,
+          serviceConfig,
+          env,
+          imageTags,
+          serviceUrls,
+          previousServices
         );
+        serviceList.push(service);
+        await trackServices();
+        return service;
+      })();
 
-        // Use the built image tag
-        const imageTag = imageTags[serviceName];
-        if (!imageTag) {
-          throw new Error(
-            `Image tag not found for service ${serviceName}. Build may have failed.`
-          );
+      ready[serviceName] = started[serviceName].then(async (service) => {
+        try {
+          await this.waitForServiceReady(preview, service, serviceConfig);
+        } catch (error) {
+          service.status = ServiceStatus.UNHEALTHY;
+          throw error;
         }
+        service.status = ServiceStatus.RUNNING;
+        await trackServices();
 
-        // Prepare environment variables
-        let containerEnv = { ...env };
-        if (preview.database) {
-          containerEnv.DATABASE_URL = preview.database.connectionString;
+        if (isServiceExposed(serviceConfig)) {
+          preview.urls.set(serviceName, service.url!);
+        } else {
+          preview.urls.delete(serviceName);
         }
 
-        // Merge service-specific env vars
-        if (serviceConfig.env) {
-          Object.assign(containerEnv, serviceConfig.env);
+        await this.logsService.createLog(
+          preview.previewId,
+          "deploy",
+          `Service ${serviceName} deployed${
+            service.url ? `: ${service.url}` : ""
+          }`
+        );
+      });
+    }
+
+    // Let every service settle so no container is left untracked
+    const results = await Promise.allSettled(Object.values(ready));
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+
+    if (failure) {
+      logger.error(
+        `Failed to deploy services for ${preview.previewId}:`,
+        failure.reason
+      );
+
+      if (previousServices) {
+        // Remove containers started by this attempt, the old ones keep serving
+        for (const service of serviceList) {
+          for (const containerId of getServiceContainerIds(service)) {
+            try {
+              await this.dockerService.removeContainer(containerId, true);
+            } catch (cleanupError) {
+              logger.error(
+                `Failed to remove container ${containerId}:`,
+                cleanupError
+              );
+            }
+          }
         }
+      } else {
+        // Keep failed containers on the preview for inspection; they are
+        // removed by the next update or destroy
+        await trackServices();
+      }
+      throw failure.reason;
+    }
 
-        // Resolve magic variables (${API_URL}, ${FRONTEND_URL}, etc.) to actual URLs
-        containerEnv = this.resolveEnvVariables(
-          containerEnv,
-          serviceUrls,
-          preview.database?.connectionString
-        );
+    return serviceList;
+  }
 
-        // Generate Traefik labels
-        const labels = await this.traefikService.generateLabels(
+  /**
+   * URLs of a preview's services, for magic variables. Internal services get
+   * their address on the preview network; workers only if they have a port.
+   */
+  private getServiceUrls(
+    preview: IPreview,
+    services: Record<string, ServiceConfig>
+  ): Record<string, string> {
+    const serviceUrls: Record<string, string> = {};
+    for (const [serviceName, serviceConfig] of Object.entries(services)) {
+      const port = getServicePort(serviceConfig);
+      if (isServiceExposed(serviceConfig)) {
+        serviceUrls[serviceName] = this.traefikService.generateServiceUrl(
           preview.previewId,
           preview.repoOwner,
-          serviceName,
-          serviceConfig.port || 8080,
-          preview.password
+          serviceName
         );
+      } else if (port) {
+        serviceUrls[serviceName] = `http://${serviceName}:${port}`;
+      }
+    }
+    return serviceUrls;
+  }
 
-        // Create container config
-        const containerConfig: ContainerConfig = {
-          name: containerName,
-          image: imageTag,
-          env: containerEnv,
-          labels,
-          port: serviceConfig.port,
-        };
-
-        // Create and start container
-        const containerId = await this.dockerService.createContainer(
-          containerConfig
-        );
-        await this.dockerService.startContainer(containerId);
+  /**
+   * Create and start the containers of a single service, one per replica
+   */
+  private async startService(
+    preview: IPreview,
+    serviceName: string,
+    serviceConfig: ServiceConfig,
+    env: Record<string, string>,
+    imageTags: Record<string, string>,
+    serviceUrls: Record<string, string>,
+    previousServices?: ServiceDetails[]
+  ): Promise<ServiceDetails> {
+    const replicaCount = getServiceReplicas(serviceConfig);
+    await this.logsService.createLog(
+      preview.previewId,
+      "deploy",
+      `Deploying service: ${serviceName}${
+        replicaCount > 1 ? ` (${replicaCount} replicas)` : ""
+      }`
+    );
+
+    // Use the built image tag
+    const imageTag = imageTags[serviceName];
+    if (!imageTag) {
+      throw new Error(
+        `Image tag not found for service ${serviceName}. Build may have failed.`
+      );
+    }
 
-        // Generate service URL
-        const url = this.traefikService.generateServiceUrl(
+    const containerEnv = this.getServiceEnv(
+      preview,
+      serviceConfig,
+      env,
+      serviceUrls
+    );
+
+    // Reuse the labels of the container currently serving this service
+    const previous = previousServices?.find((s) => s.name === serviceName);
+    const existingLabels = previous
+      ? await this.dockerService
+          .getContainerLabels(previous.containerId)
+          .catch(() => undefined)
+      : undefined;
+
+    // Generate Traefik labels; internal services stay off the proxy network
+    const exposed = isServiceExposed(serviceConfig);
+    const labels = exposed
+      ? await this.traefikService.generateLabels(
+          preview.previewId,
+          preview.repoOwner,
+          serviceName,
+          getServicePort(serviceConfig)!,
+          preview.password,
+          existingLabels
+        )
+      : this.traefikService.getServiceLabels(
           preview.previewId,
           preview.repoOwner,
           serviceName
         );
+    const networks = [generateNetworkName(preview.previewId)];
+    if (exposed) {
+      networks.push(config.traefikNetwork);
+    }
 
-        serviceList.push({
-          name: serviceName,
-          containerId,
-          imageTag,
-          port: serviceConfig.port || 8080,
-          url,
-          status: ServiceStatus.RUNNING,
+    // Create container config, shared by the replicas
+    const containerConfig: ContainerConfig = {
+      name: generateContainerName(preview.previewId, serviceName),
+      image: imageTag,
+      env: containerEnv,
+      labels,
+      port: serviceConfig.port,
+      networks,
+      aliases: [serviceName],
+      binds: [
+        ...this.getDatabaseBinds(preview),
+        ...this.getVolumeBinds(preview, serviceConfig),
+      ],
+      resources: await this.resourceLimitService.getContainerResources(
+        preview.userId,
+        serviceConfig.resources
+      ),
+      // Keeps Traefik from routing to new containers, e.g. the new side of a
+      // blue/green update, before they pass the healthcheck
+      healthcheck:
+        serviceConfig.healthcheck &&
+        this.healthCheckService.getContainerHealthcheck(
+          serviceConfig.healthcheck,
+          getServicePort(serviceConfig)
+        ),
+    };
+
+    // Create and start the containers. Replicas carry the same Traefik
+    // labels and network alias, so requests are spread across them.
+    const containerIds: string[] = [];
+    try {
+      for (let index = 0; index < replicaCount; index++) {
+        const containerId = await this.dockerService.createContainer({
+          ...containerConfig,
+          name:
+            replicaCount > 1
+              ? generateContainerName(
+                  preview.previewId,
+                  `${serviceName}-${index + 1}`
+                )
+              : containerConfig.name,
         });
+        containerIds.push(containerId);
+        await this.dockerService.startContainer(containerId);
+      }
+    } catch (error) {
+      for (const containerId of containerIds) {
+        await this.dockerService
+          .removeContainer(containerId, true)
+          .catch(() => undefined);
+      }
+      throw error;
+    }
 
-        preview.urls.set(serviceName, url);
+    return {
+      name: serviceName,
+      kind: getServiceKind(serviceConfig),
+      containerId: containerIds[0],
+      replicas: containerIds.map((containerId) => ({
+        containerId,
+        status: ServiceStatus.STARTING,
+      })),
+      imageTag,
+      port: getServicePort(serviceConfig),
+      url: serviceUrls[serviceName],
+      status: ServiceStatus.STARTING,
+    };
+  }
 
-        await this.logsService.createLog(
-          preview.previewId,
-          "deploy",
-          `Service ${serviceName} deployed: ${url}`
+  /**
+   * Environment of a service's containers: addon and database connection
+   * variables, the global env and the service's own env, with magic
+   * variables resolved
+   */
+  private getServiceEnv(
+    preview: IPreview,
+    serviceConfig: ServiceConfig,
+    env: Record<string, string>,
+    serviceUrls: Record<string, string>
+  ): Record<string, string> {
+    const addonEnv = this.getAddonEnv(preview);
+    const databaseUrl = this.getDatabaseUrl(preview.database);
+    const databaseUrls = this.getNamedDatabaseUrls(preview);
+    const containerEnv = {
+      ...addonEnv,
+      ...this.getNamedDatabaseEnv(databaseUrls),
+      ...env,
+    };
+    if (databaseUrl) {
+      containerEnv.DATABASE_URL = databaseUrl;
+    }
+
+    // Merge service-specific env vars
+    if (serviceConfig.env) {
+      Object.assign(containerEnv, serviceConfig.env);
+    }
+
+    // Resolve magic variables (${API_URL}, ${FRONTEND_URL}, etc.) to actual URLs
+    return this.resolveEnvVariables(
+      containerEnv,
+      serviceUrls,
+      databaseUrl,
+      addonEnv,
+      databaseUrls
+    );
+  }
+
+  /**
+   * Wait until every replica of a started service is ready. Uses the
+   * service's healthcheck if configured, otherwise the containers' Docker
+   * health status. On failure, the failed container's last log lines are
+   * logged and included in the error.
+   */
+  private async waitForServiceReady(
+    preview: IPreview,
+    service: ServiceDetails,
+    serviceConfig: ServiceConfig
+  ): Promise<void> {
+    await this.logsService.createLog(
+      preview.previewId,
+      "deploy",
+      `Waiting for service ${service.name} to become ready...`
+    );
+
+    const containerIds = getServiceContainerIds(service);
+    const results = await Promise.allSettled(
+      containerIds.map(async (containerId, index) => {
+        const replica = service.replicas.find(
+          (r) => r.containerId === containerId
         );
-      } catch (error) {
-        logger.error(`Failed to deploy service ${serviceName}:`, error);
-        throw error;
+        try {
+          await this.waitForReplicaReady(
+            preview,
+            service,
+            serviceConfig,
+            containerId,
+            containerIds.length > 1
+              ? `${service.name} (replica ${index + 1}/${containerIds.length})`
+              : service.name
+          );
+        } catch (error) {
+          if (replica) replica.status = ServiceStatus.UNHEALTHY;
+          throw error;
+        }
+        if (replica) replica.status = ServiceStatus.RUNNING;
+      })
+    );
+
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Wait until one replica of a service is ready, see waitForServiceReady
+   */
+  private async waitForReplicaReady(
+    preview: IPreview,
+    service: ServiceDetails,
+    serviceConfig: ServiceConfig,
+    containerId: string,
+    label: string
+  ): Promise<void> {
+    try {
+      if (serviceConfig.healthcheck) {
+        // http probes are limited to exposed services, which have a port
+        await this.healthCheckService.waitForHealthy(
+          containerId,
+          serviceConfig.healthcheck,
+          service.port!
+        );
+      } else {
+        await this.dockerService.waitForContainerReady(containerId);
+      }
+    } catch (error) {
+      const containerLogs = await this.dockerService
+        .getContainerLogs(containerId, 20)
+        .catch(() => "");
+      const lastLines = containerLogs.replace(/[^\x20-\x7E\n\t]/g, "").trim();
+
+      const oomKilled = await this.dockerService
+        .wasOomKilled(containerId)
+        .catch(() => false);
+      service.failureReason = oomKilled
+        ? ServiceFailureReason.OOM_KILLED
+        : ServiceFailureReason.NOT_READY;
+      const reason = oomKilled
+        ? "killed for exceeding its memory limit"
+        : (error as Error).message;
+
+      await this.logsService.createLog(
+        preview.previewId,
+        "container",
+        `Service ${label} failed readiness check: ${reason}`,
+        {
+          service: service.name,
+          containerId,
+          failureReason: service.failureReason,
+          lastLogLines: lastLines,
+        }
+      );
+
+      throw new Error(
+        `Service ${label} never became ready: ${reason}${
+          lastLines ? `\nLast log lines:\n${lastLines}` : ""
+        }`
+      );
+    }
+  }
+
+  /**
+   * Record that a service container was killed for exceeding its memory
+   * limit. Docker restarts the container; the reason stays on the service
+   * until the next deployment.
+   */
+  async recordOomKill(containerId: string): Promise<void> {
+    const preview = await Preview.findOneAndUpdate(
+      {
+        services: {
+          $elemMatch: {
+            $or: [{ containerId }, { "replicas.containerId": containerId }],
+          },
+        },
+      },
+      {
+        $set: { "services.$.failureReason": ServiceFailureReason.OOM_KILLED },
+      },
+      { new: true }
+    );
+    if (!preview) {
+      return;
+    }
+
+    const service = preview.services.find((s) =>
+      getServiceContainerIds(s).includes(containerId)
+    );
+    await this.logsService.createLog(
+      preview.previewId,
+      "container",
+      `Service ${service?.name} was killed for exceeding its memory limit`,
+      {
+        service: service?.name,
+        containerId,
+        failureReason: ServiceFailureReason.OOM_KILLED,
       }
+    );
+    logger.warn(
+      `Service ${service?.name} of preview ${preview.previewId} was OOM killed`
+    );
+  }
+
+  /**
+   * Run a cron service of a running preview in a one-off container, unless
+   * another backend instance already started the run scheduled at
+   * scheduledAt. A run still in progress skips the following ones until it
+   * ends or times out. The run's output and exit code go into the preview's
+   * logs.
+   */
+  async runCronJob(
+    previewId: string,
+    name: string,
+    scheduledAt: Date
+  ): Promise<void> {
+    const staleBefore = new Date(
+      Date.now() - config.cronJobTimeoutSeconds * 1000
+    );
+    const preview = await Preview.findOneAndUpdate(
+      {
+        previewId,
+        status: PreviewStatus.RUNNING,
+        cronJobs: {
+          $elemMatch: {
+            name,
+            $and: [
+              {
+                $or: [{ lastRunAt: null }, { lastRunAt: { $lt: scheduledAt } }],
+              },
+              {
+                $or: [
+                  { runningSince: null },
+                  { runningSince: { $lt: staleBefore } },
+                ],
+              },
+            ],
+          },
+        },
+      },
+      {
+        $set: {
+          "cronJobs.$.lastRunAt": scheduledAt,
+          "cronJobs.$.runningSince": new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!preview) {
+      return;
     }
 
-    preview.services = serviceList;
-    await preview.save();
+    // Same container setup as the service would get as a worker, from the
+    // deployed revision
+    const revision = preview.revisions.find(
+      (r) => r.revision === preview.currentRevision
+    );
+    const services: Record<string, ServiceConfig> = revision?.services || {};
+    const serviceConfig = services[name] || {};
+    const cronJob = preview.cronJobs.find((job) => job.name === name)!;
+
+    await this.logsService.createLog(
+      previewId,
+      "cron",
+      `Running cron service ${name}`,
+      { service: name, scheduledAt }
+    );
+
+    let exitCode: number | null = null;
+    try {
+      const result = await this.dockerService.runContainer(
+        {
+          name: generateContainerName(previewId, name),
+          image: cronJob.imageTag,
+          env: this.getServiceEnv(
+            preview,
+            serviceConfig,
+            revision?.env || {},
+            this.getServiceUrls(preview, getLongRunningServices(services))
+          ),
+          labels: {
+            ...this.traefikService.getServiceLabels(
+              previewId,
+              preview.repoOwner,
+              name
+            ),
+            "previewcloud.cron": "true",
+          },
+          networks: [generateNetworkName(previewId)],
+          binds: [
+            ...this.getDatabaseBinds(preview),
+            ...this.getVolumeBinds(preview, serviceConfig),
+          ],
+          resources: await this.resourceLimitService.getContainerResources(
+            preview.userId,
+            serviceConfig.resources
+          ),
+        },
+        config.cronJobTimeoutSeconds
+      );
+      exitCode = result.exitCode;
+
+      await this.logsService.createLog(
+        previewId,
+        "cron",
+        exitCode === null
+          ? `Cron service ${name} timed out after ${config.cronJobTimeoutSeconds}s`
+          : `Cron service ${name} exited with code ${exitCode}`,
+        {
+          service: name,
+          exitCode,
+          output: result.output.replace(/[^\x20-\x7E\n\t]/g, "").trim(),
+        }
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to run cron service ${name} of ${previewId}:`,
+        error
+      );
+      await this.logsService.createLog(
+        previewId,
+        "cron",
+        `Cron service ${name} failed to run: ${(error as Error).message}`,
+        { service: name, exitCode }
+      );
+    } finally {
+      await Preview.updateOne(
+        { _id: preview._id, "cronJobs.name": name },
+        {
+          $set: {
+            "cronJobs.$.lastExitCode": exitCode,
+            "cronJobs.$.runningSince": null,
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Remove the containers of cron runs in progress, e.g. before the
+   * preview's network and volumes go away
+   */
+  private async removeCronRuns(preview: IPreview): Promise<void> {
+    const containers = await this.dockerService.listContainersByLabel(
+      "previewcloud.previewId",
+      preview.previewId
+    );
+    for (const container of containers) {
+      if (container.Labels["previewcloud.cron"]) {
+        await this.dockerService.removeContainer(container.Id, true);
+      }
+    }
+  }
+
+  /**
+   * Persist the current service list on the preview. Uses an atomic update
+   * because services starting in parallel report progress concurrently.
+   */
+  private async saveServices(
+    preview: IPreview,
+    services: ServiceDetails[]
+  ): Promise<void> {
+    await Preview.updateOne(
+      { _id: preview._id },
+      { $set: { services: services.map((service) => ({ ...service })) } }
+    );
   }
 
   /**
    * Stop all services
    */
-  private async stopServices(preview: IPreview): Promise<void> {
-    for (const service of preview.services) {
+  private async stopServices(
+    preview: IPreview,
+    services: Array<{
+      name: string;
+      containerId: string;
+      replicas?: Array<{ containerId: string }>;
+    }> = preview.services
+  ): Promise<void> {
+    for (const service of services) {
       try {
-        await this.dockerService.stopContainer(service.containerId);
-        await this.dockerService.removeContainer(service.containerId);
+        for (const containerId of getServiceContainerIds(service)) {
+          await this.dockerService.stopContainer(containerId);
+          await this.dockerService.removeContainer(containerId);
+        }
         await this.logsService.createLog(
           preview.previewId,
           "deploy",
@@ -650,6 +3045,22 @@ export class PreviewService {
     }
   }
 
+  /**
+   * Format a preview database for API responses
+   */
+  private formatDatabaseDetails(database: IPreviewDatabase): DatabaseDetails {
+    return {
+      type: database.type,
+      mode: database.mode || DatabaseMode.SHARED,
+      user: database.user,
+      // Credentials are never returned
+      connectionString: withConnectionPassword(database.connectionString, ""),
+      image: database.image,
+      sizeBytes: database.sizeBytes,
+      restricted: !!database.restricted,
+    };
+  }
+
   /**
    * Format preview details
    */
@@ -661,21 +3072,60 @@ export class PreviewService {
       repoName: preview.repoName,
       repoOwner: preview.repoOwner,
       branch: preview.branch,
+      baseBranch: preview.baseBranch,
       commitSha: preview.commitSha,
       status: preview.status,
       services: preview.services.map((s) => ({
         name: s.name,
+        kind: s.kind || ServiceKind.WEB,
         containerId: s.containerId,
+        replicas: s.replicas.length
+          ? s.replicas.map((r) => ({
+              containerId: r.containerId,
+              status: r.status as ServiceStatus,
+            }))
+          : [{ containerId: s.containerId, status: s.status as ServiceStatus }],
         imageTag: s.imageTag,
         port: s.port,
         url: s.url,
         status: s.status as ServiceStatus,
+        failureReason: s.failureReason as ServiceFailureReason | undefined,
+      })),
+      database:
+        preview.database && this.formatDatabaseDetails(preview.database),
+      databases: Object.fromEntries(
+        preview.databases.map((d) => [d.key!, this.formatDatabaseDetails(d)])
+      ),
+      volumes: preview.volumes.map((v) => ({
+        name: v.name,
+        sizeBytes: v.sizeBytes,
+      })),
+      cronJobs: preview.cronJobs.map((j) => ({
+        name: j.name,
+        schedule: j.schedule,
+        imageTag: j.imageTag,
+        lastRunAt: j.lastRunAt,
+        lastExitCode: j.lastExitCode,
+        running: !!j.runningSince,
+      })),
+      addons: preview.addons.map((a) => ({
+        type: a.type,
+        image: a.image,
+        host: a.host,
       })),
-      database: preview.database,
       urls: Object.fromEntries(preview.urls),
+      revision: preview.currentRevision,
+      revisions: preview.revisions.map((r) => ({
+        revision: r.revision,
+        commitSha: r.commitSha,
+        imageTags: getServiceImageTags(r.services),
+        rollbackOf: r.rollbackOf,
+        deployedAt: r.deployedAt,
+      })),
       createdAt: preview.createdAt,
       updatedAt: preview.updatedAt,
       lastAccessedAt: preview.lastAccessedAt,
+      requestCount: preview.requestCount || 0,
     };
   }
 }
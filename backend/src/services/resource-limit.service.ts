@@ -1,8 +1,13 @@
+import mongoose from "mongoose";
 import { AppError } from "../middleware/errorHandler";
 import { Preview } from "../models/Preview.model";
-import { IUser } from "../models/User.model";
+import { IUser, User } from "../models/User.model";
+import { ContainerResources, ResourceLimits } from "../types/preview.types";
+import { formatBytes, parseMemorySize } from "../utils/helpers";
 import { logger } from "../utils/logger";
 
+type Plan = "free" | "pro" | "enterprise";
+
 // Plan definitions
 export const PLANS = {
   free: {
@@ -10,7 +15,14 @@ export const PLANS = {
     maxOrganizations: 1,
     maxMembers: 3,
     maxDatabaseSize: "100MB",
+    maxVolumeStorage: "1GB", // All service volumes of the user's previews
+    maxReplicas: 2, // Containers per service
     maxBuildTime: 300, // 5 min
+    // Per service container; default applies when preview.yaml sets none
+    containerResources: {
+      default: { cpus: 0.5, memory: "256m", pids: 256 },
+      max: { cpus: 1, memory: "512m", pids: 512 },
+    },
     features: ["basic_support"],
   },
   pro: {
@@ -18,7 +30,13 @@ export const PLANS = {
     maxOrganizations: 5,
     maxMembers: 10,
     maxDatabaseSize: "1GB",
+    maxVolumeStorage: "10GB",
+    maxReplicas: 5,
     maxBuildTime: 900, // 15 min
+    containerResources: {
+      default: { cpus: 1, memory: "512m", pids: 512 },
+      max: { cpus: 2, memory: "2g", pids: 1024 },
+    },
     features: ["priority_support", "custom_domains", "advanced_logs"],
   },
   enterprise: {
@@ -26,7 +44,13 @@ export const PLANS = {
     maxOrganizations: -1,
     maxMembers: -1,
     maxDatabaseSize: "10GB",
+    maxVolumeStorage: "100GB",
+    maxReplicas: 10,
     maxBuildTime: 1800, // 30 min
+    containerResources: {
+      default: { cpus: 1, memory: "1g", pids: 1024 },
+      max: { cpus: 4, memory: "8g", pids: 4096 },
+    },
     features: ["dedicated_support", "sla", "sso", "audit_logs"],
   },
 };
@@ -70,24 +94,128 @@ export class ResourceLimitService {
     activePreviewsCount: number;
     totalPreviewsCount: number;
     planLimits: typeof PLANS.free | typeof PLANS.pro | typeof PLANS.enterprise;
+    totalDatabaseSizeBytes: number;
+    databases: Array<{
+      previewId: string;
+      key?: string; // Name of an entry of the databases section
+      sizeBytes: number;
+      measuredAt?: Date;
+      restricted: boolean;
+    }>;
+    totalVolumeSizeBytes: number;
+    volumes: Array<{
+      previewId: string;
+      name: string;
+      sizeBytes: number;
+      measuredAt?: Date;
+    }>;
   }> {
-    const [activeCount, totalCount] = await Promise.all([
-      Preview.countDocuments({
-        userId: user._id,
-        status: { $in: ["creating", "running", "updating"] },
-      }),
-      Preview.countDocuments({ userId: user._id }),
-    ]);
+    const [activeCount, totalCount, previewsWithDatabase, volumes] =
+      await Promise.all([
+        Preview.countDocuments({
+          userId: user._id,
+          status: { $in: ["creating", "running", "updating"] },
+        }),
+        Preview.countDocuments({ userId: user._id }),
+        Preview.find({
+          userId: user._id,
+          $or: [
+            { "database.name": { $exists: true } },
+            { "databases.0": { $exists: true } },
+          ],
+        }).select("previewId database databases"),
+        this.getVolumeUsage(user._id),
+      ]);
 
     const planLimits = PLANS[user.plan];
 
+    // Sizes as last recorded by the cleanup scheduler
+    const databases = previewsWithDatabase.flatMap((preview) =>
+      [
+        ...(preview.database?.name ? [preview.database] : []),
+        ...preview.databases,
+      ].map((database) => ({
+        previewId: preview.previewId,
+        key: database.key,
+        sizeBytes: database.sizeBytes || 0,
+        measuredAt: database.sizeMeasuredAt,
+        restricted: !!database.restricted,
+      }))
+    );
+
     return {
       activePreviewsCount: activeCount,
       totalPreviewsCount: totalCount,
       planLimits,
+      totalDatabaseSizeBytes: databases.reduce(
+        (total, database) => total + database.sizeBytes,
+        0
+      ),
+      databases,
+      totalVolumeSizeBytes: volumes.reduce(
+        (total, volume) => total + volume.sizeBytes,
+        0
+      ),
+      volumes,
     };
   }
 
+  /**
+   * Check that a user's preview volumes are within the plan's storage
+   * quota before deploying services with volumes
+   */
+  async checkVolumeStorageLimit(user: IUser): Promise<void> {
+    const quotaBytes = parseMemorySize(PLANS[user.plan].maxVolumeStorage);
+    const usedBytes = (await this.getVolumeUsage(user._id)).reduce(
+      (total, volume) => total + volume.sizeBytes,
+      0
+    );
+
+    if (usedBytes >= quotaBytes) {
+      throw new AppError(
+        `Volume storage limit reached. Your previews' volumes use ${formatBytes(usedBytes)}. ` +
+          `Your ${user.plan} plan allows ${PLANS[user.plan].maxVolumeStorage}. ` +
+          `Please destroy some previews or upgrade your plan.`,
+        403
+      );
+    }
+  }
+
+  /**
+   * Volumes of a user's previews, with their sizes as last recorded by the
+   * cleanup scheduler
+   */
+  private async getVolumeUsage(userId: mongoose.Types.ObjectId): Promise<
+    Array<{
+      previewId: string;
+      name: string;
+      sizeBytes: number;
+      measuredAt?: Date;
+    }>
+  > {
+    const previews = await Preview.find({
+      userId,
+      "volumes.0": { $exists: true },
+    }).select("previewId volumes");
+
+    return previews.flatMap((preview) =>
+      preview.volumes.map((volume) => ({
+        previewId: preview.previewId,
+        name: volume.name,
+        sizeBytes: volume.sizeBytes || 0,
+        measuredAt: volume.sizeMeasuredAt,
+      }))
+    );
+  }
+
+  /**
+   * Largest size in bytes a database of a user's preview may grow to
+   */
+  async getDatabaseQuota(userId: mongoose.Types.ObjectId): Promise<number> {
+    const user = await User.findById(userId).select("plan");
+    return parseMemorySize(PLANS[user?.plan || "free"].maxDatabaseSize);
+  }
+
   /**
    * Check if user owns the preview
    */
@@ -96,7 +224,7 @@ export class ResourceLimitService {
     userId: string
   ): Promise<void> {
     const preview = await Preview.findOne({
-      _id: previewId,
+      previewId,
       userId,
     });
 
@@ -108,10 +236,123 @@ export class ResourceLimitService {
     }
   }
 
+  /**
+   * Check a service's requested resources against the plan ceilings
+   */
+  validateServiceResources(
+    plan: Plan,
+    serviceName: string,
+    resources: ResourceLimits
+  ): void {
+    const { max } = PLANS[plan].containerResources;
+
+    if (
+      resources.cpus !== undefined &&
+      (typeof resources.cpus !== "number" || resources.cpus <= 0)
+    ) {
+      throw new AppError(
+        `Service ${serviceName} resources.cpus must be a positive number`,
+        400
+      );
+    }
+    if (
+      resources.memory !== undefined &&
+      !(parseMemorySize(resources.memory) > 0)
+    ) {
+      throw new AppError(
+        `Service ${serviceName} resources.memory must be a size such as 256m or 1g`,
+        400
+      );
+    }
+    if (
+      resources.pids !== undefined &&
+      (!Number.isInteger(resources.pids) || resources.pids <= 0)
+    ) {
+      throw new AppError(
+        `Service ${serviceName} resources.pids must be a positive integer`,
+        400
+      );
+    }
+
+    const exceeded: string[] = [];
+    if (resources.cpus !== undefined && resources.cpus > max.cpus) {
+      exceeded.push(`cpus ${resources.cpus} > ${max.cpus}`);
+    }
+    if (
+      resources.memory !== undefined &&
+      parseMemorySize(resources.memory) > parseMemorySize(max.memory)
+    ) {
+      exceeded.push(`memory ${resources.memory} > ${max.memory}`);
+    }
+    if (resources.pids !== undefined && resources.pids > max.pids) {
+      exceeded.push(`pids ${resources.pids} > ${max.pids}`);
+    }
+
+    if (exceeded.length > 0) {
+      throw new AppError(
+        `Service ${serviceName} exceeds the resource limits of your ${plan} plan (${exceeded.join(
+          ", "
+        )}). Please lower them or upgrade your plan.`,
+        403
+      );
+    }
+  }
+
+  /**
+   * Check a service's replica count against the plan ceiling
+   */
+  validateServiceReplicas(
+    plan: Plan,
+    serviceName: string,
+    replicas: number
+  ): void {
+    if (!Number.isInteger(replicas) || replicas < 1) {
+      throw new AppError(
+        `Service ${serviceName} replicas must be a positive integer`,
+        400
+      );
+    }
+
+    const { maxReplicas } = PLANS[plan];
+    if (replicas > maxReplicas) {
+      throw new AppError(
+        `Service ${serviceName} has ${replicas} replicas. Your ${plan} plan allows ${maxReplicas} per service. ` +
+          `Please lower them or upgrade your plan.`,
+        403
+      );
+    }
+  }
+
+  /**
+   * Resolve the container limits for a service of a user's preview: plan
+   * defaults for unset values, capped at the plan ceilings
+   */
+  async getContainerResources(
+    userId: mongoose.Types.ObjectId,
+    resources: ResourceLimits = {}
+  ): Promise<ContainerResources> {
+    const user = await User.findById(userId).select("plan");
+    const { default: defaults, max } =
+      PLANS[user?.plan || "free"].containerResources;
+
+    const cpus = Math.min(resources.cpus ?? defaults.cpus, max.cpus);
+    const memory = Math.min(
+      parseMemorySize(resources.memory ?? defaults.memory),
+      parseMemorySize(max.memory)
+    );
+    const pids = Math.min(resources.pids ?? defaults.pids, max.pids);
+
+    return {
+      nanoCpus: Math.round(cpus * 1e9),
+      memoryBytes: memory,
+      pidsLimit: pids,
+    };
+  }
+
   /**
    * Get plan limits for a user
    */
-  getPlanLimits(plan: "free" | "pro" | "enterprise") {
+  getPlanLimits(plan: Plan) {
     return PLANS[plan];
   }
 }
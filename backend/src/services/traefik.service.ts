@@ -2,17 +2,28 @@ import bcrypt from "bcryptjs";
 import { config } from "../config/env";
 import { generatePreviewUrl } from "../utils/helpers";
 import { logger } from "../utils/logger";
+import { AccessService } from "./access.service";
 
 export class TraefikService {
+  private accessService: AccessService;
+
+  constructor() {
+    this.accessService = new AccessService();
+  }
+
   /**
-   * Generate Traefik labels for a container
+   * Generate Traefik labels for a container.
+   * Pass the labels of a container already serving this service to reuse
+   * its basic auth hash, so old and new containers define the same
+   * middleware while they run side by side.
    */
   async generateLabels(
     previewId: string,
     repoOwner: string,
     serviceName: string,
     port: number,
-    password?: string
+    password?: string,
+    existingLabels?: Record<string, string>
   ): Promise<Record<string, string>> {
     const routerName = `${previewId}-${serviceName}`;
     const serviceDomain = generatePreviewUrl(
@@ -26,6 +37,9 @@ export class TraefikService {
       // Enable Traefik for this container
       "traefik.enable": "true",
 
+      // Containers also join their preview's network; route via the proxy one
+      "traefik.docker.network": config.traefikNetwork,
+
       // Router configuration
       [`traefik.http.routers.${routerName}.rule`]: `Host(\`${serviceDomain}\`)`,
       [`traefik.http.routers.${routerName}.entrypoints`]: "websecure",
@@ -35,10 +49,7 @@ export class TraefikService {
         port.toString(),
 
       // Metadata labels for tracking
-      "previewcloud.managed": "true",
-      "previewcloud.previewId": previewId,
-      "previewcloud.service": serviceName,
-      "previewcloud.owner": repoOwner,
+      ...this.getServiceLabels(previewId, repoOwner, serviceName),
     };
 
     // Add TLS configuration if SSL is enabled
@@ -48,18 +59,48 @@ export class TraefikService {
         "letsencrypt";
     }
 
+    const middlewares: string[] = [];
+
     // Add basic auth if password protection is enabled
     if (password || config.previewPasswordProtected) {
       const authPassword = password || config.previewDefaultPassword;
       const middlewareName = `${routerName}-auth`;
 
-      // Generate htpasswd format
-      const hashedPassword = await bcrypt.hash(authPassword, 10);
-      const htpasswd = `preview:${hashedPassword}`;
+      const authLabel = `traefik.http.middlewares.${middlewareName}.basicauth.users`;
+      const existingHtpasswd = existingLabels?.[authLabel];
+
+      // Generate htpasswd format, reusing the existing hash if it still matches
+      let htpasswd: string;
+      if (
+        existingHtpasswd &&
+        (await bcrypt.compare(
+          authPassword,
+          existingHtpasswd.replace(/^preview:/, "")
+        ))
+      ) {
+        htpasswd = existingHtpasswd;
+      } else {
+        const hashedPassword = await bcrypt.hash(authPassword, 10);
+        htpasswd = `preview:${hashedPassword}`;
+      }
 
-      labels[`traefik.http.middlewares.${middlewareName}.basicauth.users`] =
-        htpasswd;
-      labels[`traefik.http.routers.${routerName}.middlewares`] = middlewareName;
+      labels[authLabel] = htpasswd;
+      middlewares.push(middlewareName);
+    }
+
+    // Record requests that passed basic auth, to keep lastAccessedAt and
+    // the request count up to date
+    const trackingAddress = this.accessService.getTrackingAddress(previewId);
+    if (trackingAddress) {
+      const middlewareName = `${routerName}-access`;
+      labels[`traefik.http.middlewares.${middlewareName}.forwardauth.address`] =
+        trackingAddress;
+      middlewares.push(middlewareName);
+    }
+
+    if (middlewares.length > 0) {
+      labels[`traefik.http.routers.${routerName}.middlewares`] =
+        middlewares.join(",");
     }
 
     logger.debug(`Generated Traefik labels for ${serviceDomain}`);
@@ -84,6 +125,22 @@ export class TraefikService {
     return `${protocol}://${domain}`;
   }
 
+  /**
+   * Get the metadata labels of a service container. Internal services only
+   * get these, so Traefik ignores them.
+   */
+  getServiceLabels(
+    previewId: string,
+    repoOwner: string,
+    serviceName: string
+  ): Record<string, string> {
+    return {
+      ...this.getPreviewLabels(previewId),
+      "previewcloud.service": serviceName,
+      "previewcloud.owner": repoOwner,
+    };
+  }
+
   /**
    * Get all preview-related labels for filtering
    */
@@ -0,0 +1,89 @@
+import { IPreview, Preview } from "../models/Preview.model";
+import { TriggerType } from "../types/deployment.types";
+import { PreviewStatus } from "../types/preview.types";
+import { logger } from "../utils/logger";
+import { PreviewService } from "./preview.service";
+
+// Previews this backend instance is currently waking up
+const waking = new Set<string>();
+
+/**
+ * The fields of a preview that wake-on-request needs
+ */
+export type HostPreview = Pick<IPreview, "previewId" | "status">;
+
+// Previews found by host name, including hosts without one, cached briefly
+// so repeated requests and the holding page's status polls don't each
+// query MongoDB
+const HOST_CACHE_TTL_MS = 5000;
+const HOST_CACHE_MAX_ENTRIES = 1000;
+const hostCache = new Map<
+  string,
+  { preview: HostPreview | null; expiresAt: number }
+>();
+
+export class WakeService {
+  private previewService: PreviewService;
+
+  constructor() {
+    this.previewService = new PreviewService();
+  }
+
+  /**
+   * Find the preview serving a host name. Results are cached for a few
+   * seconds.
+   */
+  async findPreviewByHost(host: string): Promise<HostPreview | null> {
+    const now = Date.now();
+    const cached = hostCache.get(host);
+    if (cached && cached.expiresAt > now) {
+      return cached.preview;
+    }
+
+    const preview = await Preview.findOne({
+      "services.url": { $in: [`http://${host}`, `https://${host}`] },
+      status: { $ne: PreviewStatus.DESTROYED },
+    })
+      .select("previewId status")
+      .lean<HostPreview>();
+
+    // Requests for random hosts must not grow the cache without bound
+    if (hostCache.size >= HOST_CACHE_MAX_ENTRIES) {
+      for (const [key, entry] of hostCache) {
+        if (entry.expiresAt <= now) {
+          hostCache.delete(key);
+        }
+      }
+      if (hostCache.size >= HOST_CACHE_MAX_ENTRIES) {
+        hostCache.clear();
+      }
+    }
+    hostCache.set(host, { preview, expiresAt: now + HOST_CACHE_TTL_MS });
+
+    return preview;
+  }
+
+  /**
+   * Start waking a sleeping preview in the background. Requests that arrive
+   * while it is starting do not start it again.
+   */
+  wakePreview(previewId: string): void {
+    if (waking.has(previewId)) {
+      return;
+    }
+    waking.add(previewId);
+
+    logger.info(`Waking preview on request: ${previewId}`);
+    this.previewService
+      .resumePreview(previewId, {
+        type: TriggerType.SYSTEM,
+        event: "wake-on-request",
+      })
+      .catch((error) => {
+        logger.error(`Failed to wake preview ${previewId}:`, error);
+      })
+      .finally(() => {
+        waking.delete(previewId);
+      });
+  }
+}
@@ -0,0 +1,27 @@
+export enum AddonType {
+  REDIS = "redis",
+  RABBITMQ = "rabbitmq",
+  MINIO = "minio",
+  ELASTICSEARCH = "elasticsearch",
+  MAILHOG = "mailhog",
+}
+
+/**
+ * Sidecar declared in the addons section of preview.yaml. A plain type is
+ * shorthand for { type }.
+ */
+export interface AddonConfig {
+  type: AddonType;
+  version?: string; // Image tag, defaults to a version chosen per type
+}
+
+/**
+ * An addon container running on a preview's network
+ */
+export interface AddonDetails {
+  type: AddonType;
+  containerId: string;
+  image: string;
+  host: string; // DNS name on the preview network
+  env: Record<string, string>; // Connection env vars injected into services
+}
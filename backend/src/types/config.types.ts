@@ -3,6 +3,7 @@ export interface PreviewYamlConfig {
   database?: DatabaseYamlConfig;
   env?: Record<string, string>;
   password?: string;
+  updateStrategy?: "recreate" | "blue-green";
 }
 
 export interface ServiceYamlConfig {
@@ -11,11 +12,32 @@ export interface ServiceYamlConfig {
   env?: Record<string, string>;
   context?: string;
   buildArgs?: Record<string, string>;
+  healthcheck?: HealthCheckYamlConfig;
+  dependsOn?: (string | ServiceDependencyYamlConfig)[];
+}
+
+export interface ServiceDependencyYamlConfig {
+  service: string;
+  condition?: "started" | "healthy";
+}
+
+export interface HealthCheckYamlConfig {
+  http?: string;
+  tcp?: number;
+  command?: string;
+  interval?: number;
+  timeout?: number;
 }
 
 export interface DatabaseYamlConfig {
   type: "postgres" | "mysql" | "mongodb";
-  migrations?: string;
+  migrations?: string | MigrationsYamlConfig;
+}
+
+export interface MigrationsYamlConfig {
+  path?: string;
+  command?: string;
+  service?: string;
 }
 
 export interface EnvironmentConfig {
@@ -24,13 +46,25 @@ export interface EnvironmentConfig {
   mongodbUri: string;
   dockerHost: string;
   baseDomain: string;
+  apiDomain: string;
   wildcardSsl: boolean;
   githubWebhookSecret: string;
   jwtSecret: string;
   apiTokenSecret: string;
+  encryptionKey: string;
   maxPreviews: number;
   idleTimeoutHours: number;
   cleanupIntervalMinutes: number;
+  idleAction: string;
+  scaleToZeroIdleMinutes: number;
+  cronJobTimeoutSeconds: number;
+  jobPollIntervalSeconds: number;
+  jobMaxAttempts: number;
+  jobConcurrency: number;
+  previewLockLeaseSeconds: number;
+  previewLockWaitSeconds: number;
+  defaultUpdateStrategy: string;
+  previewRevisionHistory: number;
   postgresHost: string;
   postgresPort: number;
   postgresAdminUser: string;
@@ -43,8 +77,22 @@ export interface EnvironmentConfig {
   mongodbPort: number;
   mongodbAdminUser: string;
   mongodbAdminPassword: string;
+  redisHost: string;
+  redisPort: number;
+  redisAdminUser: string;
+  redisAdminPassword: string;
+  sqliteDataDir: string;
+  sqliteHostDataDir: string; // SQLITE_DATA_DIR on the Docker host, if it differs
+  databaseSnapshotDir: string;
+  dedicatedDatabaseNetwork: string;
+  migrationTimeoutSeconds: number;
+  databaseQueryMaxRows: number;
+  databaseQueryTimeoutSeconds: number;
+  databaseQuotaGraceMinutes: number;
   traefikNetwork: string;
   traefikApiUrl: string;
+  accessTrackingUrl: string;
+  accessFlushIntervalSeconds: number;
   previewPasswordProtected: boolean;
   previewDefaultPassword: string;
 }
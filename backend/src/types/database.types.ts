@@ -0,0 +1,69 @@
+/**
+ * Structure of a database, as introspected after migrations
+ */
+export interface DatabaseSchema {
+  tables: Record<string, TableSchema>; // Collections in MongoDB
+}
+
+export interface TableSchema {
+  columns: Record<string, string>; // Name -> definition; none in MongoDB
+  indexes: Record<string, string>; // Name -> definition
+}
+
+export enum SchemaChangeKind {
+  ADDED = "added",
+  REMOVED = "removed",
+  CHANGED = "changed",
+}
+
+export enum SchemaObjectType {
+  TABLE = "table",
+  COLUMN = "column",
+  INDEX = "index",
+}
+
+/**
+ * One difference between a base schema and a preview's schema
+ */
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  object: SchemaObjectType;
+  table: string;
+  name?: string; // Column or index name
+  before?: string; // Definition in the base schema
+  after?: string; // Definition in the preview's schema
+}
+
+/**
+ * Schema changes of a preview against its base branch
+ */
+export interface SchemaDiffReport {
+  base: {
+    branch: string;
+    commitSha: string;
+    capturedAt: Date;
+  };
+  changes: SchemaChange[];
+  markdown: string; // Summary for PR comments
+}
+
+/**
+ * Read-only query from the database console. SQL databases take `sql`;
+ * MongoDB takes a collection with a find filter or an aggregation pipeline;
+ * Redis takes a key pattern.
+ */
+export interface DatabaseQuery {
+  sql?: string;
+  collection?: string;
+  filter?: Record<string, unknown>;
+  pipeline?: Record<string, unknown>[];
+  pattern?: string; // Glob-style, without the key prefix, e.g. session:*
+  limit?: number; // Capped by DATABASE_QUERY_MAX_ROWS
+}
+
+export interface DatabaseQueryResult {
+  columns: string[]; // Field names in MongoDB
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  truncated: boolean; // More rows matched than the limit
+}
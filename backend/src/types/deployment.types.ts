@@ -0,0 +1,61 @@
+export enum DeploymentAction {
+  CREATE = "create",
+  UPDATE = "update",
+  ROLLBACK = "rollback",
+  PAUSE = "pause",
+  RESUME = "resume",
+  DESTROY = "destroy",
+}
+
+export enum DeploymentOutcome {
+  IN_PROGRESS = "in_progress",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+}
+
+export enum DeploymentStep {
+  DATABASE = "database", // Provision database and run migrations
+  ADDONS = "addons", // Start or remove addon containers
+  PULL = "pull", // Pull service images
+  MIGRATE = "migrate", // Run the database migrations command
+  DEPLOY = "deploy", // Start services and wait for readiness
+  TEARDOWN = "teardown", // Remove containers, database and images
+}
+
+export enum TriggerType {
+  USER = "user", // API request or GitHub Action
+  WEBHOOK = "webhook", // GitHub webhook event
+  SYSTEM = "system", // Cleanup jobs, automatic rollbacks
+}
+
+/**
+ * Who or what started a deployment
+ */
+export interface DeploymentTrigger {
+  type: TriggerType;
+  userId?: string;
+  email?: string;
+  event?: string; // e.g. pull_request.closed, idle-cleanup, auto-rollback
+}
+
+export interface DeploymentStepDetails {
+  name: DeploymentStep;
+  startedAt: Date;
+  durationMs: number;
+  succeeded: boolean;
+}
+
+export interface DeploymentDetails {
+  deploymentId: string;
+  previewId: string;
+  action: DeploymentAction;
+  commitSha?: string;
+  imageTags: Record<string, string>;
+  outcome: DeploymentOutcome;
+  error?: string;
+  trigger: DeploymentTrigger;
+  steps: DeploymentStepDetails[];
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+}
@@ -0,0 +1,29 @@
+export enum JobType {
+  DEPLOY = "deploy",
+  ROLLBACK = "rollback",
+}
+
+export enum JobStatus {
+  QUEUED = "queued",
+  RUNNING = "running",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+  CANCELLED = "cancelled",
+}
+
+export interface JobDetails {
+  jobId: string;
+  type: JobType;
+  status: JobStatus;
+  previewId: string;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  error?: string;
+  result?: Record<string, any>;
+  runAfter: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
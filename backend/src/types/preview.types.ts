@@ -1,7 +1,11 @@
+import { AddonConfig, AddonType } from "./addon.types";
+
 export enum PreviewStatus {
   CREATING = "creating",
   RUNNING = "running",
   UPDATING = "updating",
+  PAUSED = "paused", // Containers stopped, database and images kept
+  SLEEPING = "sleeping", // Scaled to zero when idle, woken by the next request
   DESTROYING = "destroying",
   DESTROYED = "destroyed",
   FAILED = "failed",
@@ -14,37 +18,125 @@ export enum PreviewType {
 
 export enum ServiceStatus {
   BUILDING = "building",
+  STARTING = "starting", // Container started, waiting for readiness
   RUNNING = "running",
+  UNHEALTHY = "unhealthy", // Readiness check never passed
   STOPPED = "stopped",
   FAILED = "failed",
 }
 
+/**
+ * Why a service stopped serving, beyond its status
+ */
+export enum ServiceFailureReason {
+  NOT_READY = "not_ready", // Readiness check never passed
+  OOM_KILLED = "oom_killed", // Killed for exceeding its memory limit
+}
+
 export enum LogType {
   BUILD = "build",
   DEPLOY = "deploy",
   CONTAINER = "container",
   DATABASE = "database",
   SYSTEM = "system",
+  AUDIT = "audit", // Access to preview data, e.g. database queries
+  CRON = "cron", // Runs of cron services
+}
+
+export enum UpdateStrategy {
+  RECREATE = "recreate", // Stop old containers, then start new ones
+  BLUE_GREEN = "blue-green", // Start new containers next to old ones, switch when ready
+}
+
+export enum IdleAction {
+  DESTROY = "destroy", // Remove containers, database and images
+  PAUSE = "pause", // Stop containers, keep data so the preview can resume
+}
+
+export enum ServiceKind {
+  WEB = "web", // Long-running, routed through Traefik unless not exposed
+  WORKER = "worker", // Long-running, without a router or URL
+  CRON = "cron", // One-off container per run of its schedule
+}
+
+export enum DependencyCondition {
+  STARTED = "started", // Dependency container has been started
+  HEALTHY = "healthy", // Dependency has passed its readiness check
 }
 
 export enum DatabaseType {
   POSTGRES = "postgres",
   MYSQL = "mysql",
   MONGODB = "mongodb",
+  REDIS = "redis", // Key prefix on the shared Redis server
+  SQLITE = "sqlite", // File mounted into the preview's containers
 }
 
 export interface ServiceConfig {
   dockerfile?: string; // Optional: if not provided, imageTag must be provided
   imageTag?: string; // Optional: pre-built image tag (registry format: registry/image:tag)
+  kind?: ServiceKind; // Default: web
+  schedule?: string; // Cron expression in UTC, cron services only
   port?: number;
   env?: Record<string, string>;
   context?: string;
   buildArgs?: Record<string, string>;
+  healthcheck?: HealthCheckConfig;
+  dependsOn?: (string | ServiceDependency)[]; // Services that must start first
+  resources?: ResourceLimits;
+  expose?: boolean; // Route public traffic to the service (default: true)
+  volumes?: string[]; // Named volumes as name:/path, kept across updates
+  replicas?: number; // Containers behind the service's URL (default: 1)
+}
+
+/**
+ * Resource limits for a service container. Unset values fall back to the
+ * defaults of the owner's plan; values above the plan ceiling are rejected.
+ */
+export interface ResourceLimits {
+  cpus?: number; // CPU cores, e.g. 0.5
+  memory?: string; // e.g. 256m, 1g
+  pids?: number; // Maximum number of processes
+}
+
+/**
+ * Dependency on another service in the same preview. A plain service name
+ * is shorthand for { service, condition: "started" }.
+ */
+export interface ServiceDependency {
+  service: string;
+  condition?: DependencyCondition;
+}
+
+/**
+ * Readiness check for a service. Exactly one of http, tcp or command is set.
+ */
+export interface HealthCheckConfig {
+  http?: string; // HTTP path probed on the service port, e.g. /health
+  tcp?: number; // TCP port that must accept connections
+  command?: string; // Shell command run inside the container, healthy on exit code 0
+  interval?: number; // Seconds between probes (default: 5)
+  timeout?: number; // Seconds to wait for readiness before failing (default: 120)
+}
+
+export enum DatabaseMode {
+  SHARED = "shared", // Database on the shared server of its type
+  DEDICATED = "dedicated", // Database server container of its own
 }
 
 export interface DatabaseConfig {
   type: DatabaseType;
-  migrations?: string;
+  mode?: DatabaseMode; // Default: shared
+  version?: string; // Image tag of a dedicated server, e.g. "15"
+  cloneFrom?: string; // Snapshot restored before migrations
+  migrations?: string | MigrationsConfig; // A string is a path
+  seed?: string; // File or folder loaded after migrations
+}
+
+export interface MigrationsConfig {
+  path?: string; // Folder of migration files, each applied once
+  command?: string; // Run in a one-off container of a service's image
+  service?: string; // Service whose image runs the command (default: first)
 }
 
 export interface PreviewConfig {
@@ -53,11 +145,42 @@ export interface PreviewConfig {
   repoName: string;
   repoOwner: string;
   branch: string;
+  baseBranch?: string; // Branch a PR targets, for the schema diff
   commitSha: string;
   services: Record<string, ServiceConfig>;
   database?: DatabaseConfig;
+  databases?: Record<string, DatabaseConfig>; // More databases by name, e.g. events
+  addons?: (AddonType | AddonConfig)[];
   env?: Record<string, string>;
   password?: string;
+  updateStrategy?: UpdateStrategy;
+}
+
+export interface DatabaseDetails {
+  type: DatabaseType;
+  mode: DatabaseMode;
+  user?: string;
+  connectionString: string; // Without the password
+  image?: string; // Dedicated mode only
+  sizeBytes?: number; // As last measured by the cleanup scheduler
+  restricted: boolean; // Read-only for exceeding the plan's quota
+}
+
+export interface VolumeDetails {
+  name: string; // Name in the services' volumes
+  sizeBytes?: number; // As last measured by the cleanup scheduler
+}
+
+/**
+ * A cron service of the deployed revision and the outcome of its last run
+ */
+export interface CronJobDetails {
+  name: string;
+  schedule: string;
+  imageTag: string;
+  lastRunAt?: Date;
+  lastExitCode?: number | null; // Null when the run timed out or failed to start
+  running: boolean;
 }
 
 export interface PreviewDetails {
@@ -67,25 +190,56 @@ export interface PreviewDetails {
   repoName: string;
   repoOwner: string;
   branch: string;
+  baseBranch?: string;
   commitSha: string;
   status: PreviewStatus;
   services: ServiceDetails[];
-  database?: {
-    type: DatabaseType;
-    connectionString: string;
-  };
+  database?: DatabaseDetails;
+  databases: Record<string, DatabaseDetails>;
+  volumes: VolumeDetails[];
+  cronJobs: CronJobDetails[];
+  addons: Array<{
+    type: AddonType;
+    image: string;
+    host: string;
+  }>;
   urls: Record<string, string>;
+  revision?: number; // Currently deployed revision
+  revisions: PreviewRevision[];
   createdAt: Date;
   updatedAt: Date;
   lastAccessedAt: Date;
+  requestCount: number;
+}
+
+/**
+ * A successfully deployed state of a preview that can be rolled back to
+ */
+export interface PreviewRevision {
+  revision: number;
+  commitSha: string;
+  imageTags: Record<string, string>; // Image tag per service
+  rollbackOf?: number; // Revision this one redeployed, for rollbacks
+  deployedAt: Date;
 }
 
 export interface ServiceDetails {
   name: string;
-  containerId: string;
+  kind: ServiceKind;
+  containerId: string; // First replica
+  replicas: ServiceReplica[];
   imageTag: string;
-  port: number;
-  url: string;
+  port?: number; // Unset for workers without a port
+  url?: string; // Unset for workers without a port
+  status: ServiceStatus;
+  failureReason?: ServiceFailureReason;
+}
+
+/**
+ * One container of a service; replicas share the service's Traefik labels
+ */
+export interface ServiceReplica {
+  containerId: string;
   status: ServiceStatus;
 }
 
@@ -95,7 +249,33 @@ export interface ContainerConfig {
   env: Record<string, string>;
   labels: Record<string, string>;
   port?: number;
-  networks?: string[];
+  command?: string[];
+  networks?: string[]; // The first network is joined on creation
+  aliases?: string[]; // DNS names on the first network
+  binds?: string[]; // Mounts as source:target, e.g. a host folder
+  resources?: ContainerResources;
+  restart?: boolean; // Restart unless stopped (default: true)
+  healthcheck?: ContainerHealthcheck;
+}
+
+/**
+ * Docker HEALTHCHECK of a container. Traefik only routes to containers that
+ * have one once they report healthy.
+ */
+export interface ContainerHealthcheck {
+  command: string; // Shell command run inside the container
+  intervalSeconds: number;
+  timeoutSeconds: number; // Of a single run
+  startPeriodSeconds: number; // Failures before this don't count
+}
+
+/**
+ * Resource limits resolved for a container, in Docker HostConfig units
+ */
+export interface ContainerResources {
+  nanoCpus: number;
+  memoryBytes: number;
+  pidsLimit: number;
 }
 
 export interface BuildContext {
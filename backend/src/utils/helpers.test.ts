@@ -0,0 +1,55 @@
+import { DependencyCondition } from "../types/preview.types";
+import { orderServicesByDependencies } from "./helpers";
+
+describe("orderServicesByDependencies", () => {
+  it("puts every service after its dependencies", () => {
+    const order = orderServicesByDependencies({
+      web: { dependsOn: ["api"] },
+      api: {
+        dependsOn: [
+          "db-proxy",
+          { service: "cache", condition: DependencyCondition.HEALTHY },
+        ],
+      },
+      cache: {},
+      "db-proxy": {},
+    });
+
+    expect(order).toEqual(["db-proxy", "cache", "api", "web"]);
+  });
+
+  it("keeps the declared order of independent services", () => {
+    expect(orderServicesByDependencies({ b: {}, a: {}, c: {} })).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+
+  it("lists a shared dependency once", () => {
+    const order = orderServicesByDependencies({
+      web: { dependsOn: ["api", "worker"] },
+      api: { dependsOn: ["queue"] },
+      worker: { dependsOn: ["queue"] },
+      queue: {},
+    });
+
+    expect(order).toEqual(["queue", "api", "worker", "web"]);
+  });
+
+  it("throws on an unknown dependency", () => {
+    expect(() =>
+      orderServicesByDependencies({ web: { dependsOn: ["api"] } })
+    ).toThrow("Service web depends on unknown service api");
+  });
+
+  it("throws on a cycle, naming its services", () => {
+    expect(() =>
+      orderServicesByDependencies({
+        web: { dependsOn: ["api"] },
+        api: { dependsOn: ["worker"] },
+        worker: { dependsOn: ["api"] },
+      })
+    ).toThrow("Service dependency cycle: api -> worker -> api");
+  });
+});
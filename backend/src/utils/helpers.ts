@@ -1,6 +1,17 @@
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import cron from "node-cron";
 import { v4 as uuidv4 } from "uuid";
+import { AddonConfig, AddonType } from "../types/addon.types";
+import {
+  DatabaseConfig,
+  DependencyCondition,
+  MigrationsConfig,
+  PreviewConfig,
+  ServiceConfig,
+  ServiceDependency,
+  ServiceKind,
+} from "../types/preview.types";
 
 /**
  * Sanitize a string to be safe for use in container/database names
@@ -32,6 +43,62 @@ export function generateContainerName(
   return `${previewId}-${sanitized}-${id}`;
 }
 
+/**
+ * Generate the name of a preview's private Docker network
+ */
+export function generateNetworkName(previewId: string): string {
+  return `previewcloud-${sanitizeName(previewId)}`;
+}
+
+/**
+ * Names of service volumes; they become part of Docker volume names
+ */
+export const VOLUME_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Split a service volume such as uploads:/app/uploads into the volume's
+ * name and the absolute path it is mounted at. Returns undefined for
+ * invalid entries.
+ */
+export function parseServiceVolume(
+  volume: string
+): { name: string; path: string } | undefined {
+  if (typeof volume !== "string") return undefined;
+  const separator = volume.indexOf(":");
+  const name = volume.slice(0, separator);
+  const path = volume.slice(separator + 1);
+  if (
+    separator < 0 ||
+    !VOLUME_NAME_PATTERN.test(name) ||
+    !path.startsWith("/") ||
+    path.includes(":")
+  ) {
+    return undefined;
+  }
+  return { name, path };
+}
+
+/**
+ * Generate the Docker volume name of a preview's volume; services of the
+ * preview that use the same name share it
+ */
+export function generateVolumeName(previewId: string, name: string): string {
+  return `previewcloud-${sanitizeName(previewId)}-${name}`;
+}
+
+/**
+ * Keys of the databases section; they become part of env var names
+ */
+export const DATABASE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * ID the name and user of a preview database are generated from: the
+ * preview ID, with the key of an entry of the databases section
+ */
+export function getDatabaseId(previewId: string, key?: string): string {
+  return key ? `${previewId}_${key}` : previewId;
+}
+
 /**
  * Generate a database name
  */
@@ -40,6 +107,32 @@ export function generateDatabaseName(previewId: string): string {
   return `${sanitized}_db`;
 }
 
+/**
+ * Generate the name of a preview's database user. A hash of the preview ID
+ * keeps it unique within MySQL's 32 character limit.
+ */
+export function generateDatabaseUser(previewId: string): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(previewId)
+    .digest("hex")
+    .substring(0, 8);
+  return `${sanitizeName(previewId).substring(0, 20)}_${hash}`;
+}
+
+/**
+ * Set the password of a database connection string; an empty password
+ * removes it
+ */
+export function withConnectionPassword(
+  connectionString: string,
+  password: string
+): string {
+  const url = new URL(connectionString);
+  url.password = password;
+  return url.toString();
+}
+
 /**
  * Generate a preview URL
  * For PR: pr-{number}-{owner}.{service}.{domain}
@@ -149,6 +242,221 @@ export function truncate(str: string, maxLength: number): string {
   return str.substring(0, maxLength - 3) + "...";
 }
 
+/**
+ * Normalize the addons section of a preview config to { type, version }
+ */
+export function getAddonConfigs(
+  addons: (AddonType | AddonConfig)[] = []
+): AddonConfig[] {
+  return addons.map((addon) =>
+    typeof addon === "string" ? { type: addon } : addon
+  );
+}
+
+/**
+ * Normalize a service's dependsOn entries to { service, condition }
+ */
+export function getServiceDependencies(
+  serviceConfig: ServiceConfig
+): Required<ServiceDependency>[] {
+  return (serviceConfig.dependsOn || []).map((dependency) =>
+    typeof dependency === "string"
+      ? { service: dependency, condition: DependencyCondition.STARTED }
+      : {
+          service: dependency.service,
+          condition: dependency.condition || DependencyCondition.STARTED,
+        }
+  );
+}
+
+/**
+ * Order services so every service comes after its dependencies.
+ * Throws if a dependency is unknown or the dependencies form a cycle.
+ */
+export function orderServicesByDependencies(
+  services: Record<string, ServiceConfig>
+): string[] {
+  const ordered: string[] = [];
+  const state: Record<string, "visiting" | "done"> = {};
+
+  const visit = (name: string, path: string[]): void => {
+    if (state[name] === "done") return;
+    if (state[name] === "visiting") {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      throw new Error(`Service dependency cycle: ${cycle.join(" -> ")}`);
+    }
+
+    state[name] = "visiting";
+    for (const dependency of getServiceDependencies(services[name])) {
+      if (!services[dependency.service]) {
+        throw new Error(
+          `Service ${name} depends on unknown service ${dependency.service}`
+        );
+      }
+      visit(dependency.service, [...path, name]);
+    }
+    state[name] = "done";
+    ordered.push(name);
+  };
+
+  for (const name of Object.keys(services)) {
+    visit(name, []);
+  }
+
+  return ordered;
+}
+
+/**
+ * Kind of a service; services without one are web services
+ */
+export function getServiceKind(serviceConfig: ServiceConfig): ServiceKind {
+  return serviceConfig.kind || ServiceKind.WEB;
+}
+
+/**
+ * Port a service listens on. Web services default to 8080; workers have
+ * none unless set.
+ */
+export function getServicePort(
+  serviceConfig: ServiceConfig
+): number | undefined {
+  return (
+    serviceConfig.port ||
+    (getServiceKind(serviceConfig) === ServiceKind.WEB ? 8080 : undefined)
+  );
+}
+
+/**
+ * The services that run continuously, i.e. all but cron services
+ */
+export function getLongRunningServices(
+  services: Record<string, ServiceConfig>
+): Record<string, ServiceConfig> {
+  return Object.fromEntries(
+    Object.entries(services).filter(
+      ([, serviceConfig]) => getServiceKind(serviceConfig) !== ServiceKind.CRON
+    )
+  );
+}
+
+/**
+ * Whether a service gets a public URL through Traefik. Internal services
+ * are only reachable from the other services of their preview.
+ */
+export function isServiceExposed(serviceConfig: ServiceConfig): boolean {
+  return (
+    getServiceKind(serviceConfig) === ServiceKind.WEB &&
+    serviceConfig.expose !== false
+  );
+}
+
+/**
+ * Number of containers a service runs
+ */
+export function getServiceReplicas(serviceConfig: ServiceConfig): number {
+  return serviceConfig.replicas ?? 1;
+}
+
+/**
+ * Containers of a deployed service. Services deployed before replicas only
+ * have their single container.
+ */
+export function getServiceContainerIds(service: {
+  containerId: string;
+  replicas?: Array<{ containerId: string }>;
+}): string[] {
+  return service.replicas?.length
+    ? service.replicas.map((replica) => replica.containerId)
+    : [service.containerId];
+}
+
+/**
+ * The database and the named databases of a preview config, the latter
+ * with their key
+ */
+export function getDatabaseConfigs(
+  previewConfig: PreviewConfig
+): Array<DatabaseConfig & { key?: string }> {
+  return [
+    ...(previewConfig.database ? [previewConfig.database] : []),
+    ...Object.entries(previewConfig.databases || {}).map(
+      ([key, databaseConfig]) => ({ ...databaseConfig, key })
+    ),
+  ];
+}
+
+/**
+ * Migrations of a database config in object form
+ */
+export function getMigrationsConfig(
+  databaseConfig?: DatabaseConfig
+): MigrationsConfig {
+  const migrations = databaseConfig?.migrations;
+  if (!migrations) return {};
+  return typeof migrations === "string" ? { path: migrations } : migrations;
+}
+
+/**
+ * Get the image tag of every service in a services config
+ */
+export function getServiceImageTags(
+  services: Record<string, ServiceConfig>
+): Record<string, string> {
+  const imageTags: Record<string, string> = {};
+  for (const [serviceName, serviceConfig] of Object.entries(services)) {
+    if (serviceConfig.imageTag) {
+      imageTags[serviceName] = serviceConfig.imageTag;
+    }
+  }
+  return imageTags;
+}
+
+/**
+ * Whether a schedule is a five-field cron expression such as `0 3 * * 1-5`.
+ * node-cron also takes a leading seconds field, which cron services don't.
+ */
+export function isValidCronSchedule(schedule: string): boolean {
+  return (
+    typeof schedule === "string" &&
+    schedule.trim().split(/\s+/).length === 5 &&
+    cron.validate(schedule)
+  );
+}
+
+/**
+ * Parse a memory size such as 512m, 1g or 256MB into bytes. Returns NaN
+ * for values that are not a size.
+ */
+export function parseMemorySize(value: string | number): number {
+  if (typeof value === "number") return value;
+
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(value.trim());
+  if (!match) return NaN;
+
+  const units: Record<string, number> = {
+    "": 1,
+    k: 1024,
+    m: 1024 * 1024,
+    g: 1024 * 1024 * 1024,
+  };
+  return Math.floor(parseFloat(match[1]) * units[match[2].toLowerCase()]);
+}
+
+/**
+ * Format a size in bytes for messages, e.g. 1.5GB, in the units
+ * parseMemorySize accepts
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Number(value.toFixed(1))}${units[unit]}`;
+}
+
 /**
  * Parse boolean from string
  */
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import * as os from "os";
+import * as path from "path";
+import { parseConfig } from "./config-parser";
+
+jest.mock("@actions/core");
+
+describe("parseConfig", () => {
+  let workingDirectory: string;
+
+  beforeEach(() => {
+    workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "preview-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workingDirectory, { recursive: true, force: true });
+  });
+
+  // Write a preview.yaml and parse it
+  function parse(config: unknown) {
+    fs.writeFileSync(
+      path.join(workingDirectory, "preview.yaml"),
+      yaml.dump(config)
+    );
+    return parseConfig("preview.yaml", workingDirectory);
+  }
+
+  it("resolves service paths against the working directory", async () => {
+    const config = await parse({
+      services: { web: { dockerfile: "web/Dockerfile", context: "web" } },
+      database: { type: "postgres", migrations: "db/migrations" },
+    });
+
+    expect(config.services.web.dockerfile).toBe(
+      path.join(workingDirectory, "web/Dockerfile")
+    );
+    expect(config.services.web.context).toBe(
+      path.join(workingDirectory, "web")
+    );
+    expect(config.database?.migrations).toBe(
+      path.join(workingDirectory, "db/migrations")
+    );
+  });
+
+  it("throws when the file does not exist", async () => {
+    await expect(parseConfig("missing.yaml", workingDirectory)).rejects.toThrow(
+      "Configuration file not found"
+    );
+  });
+
+  describe("validateConfig", () => {
+    it("requires services", async () => {
+      await expect(parse({ database: { type: "postgres" } })).rejects.toThrow(
+        "services field is required and must be an object"
+      );
+    });
+
+    it("requires a dockerfile for every service", async () => {
+      await expect(
+        parse({ services: { web: { port: 3000 } } })
+      ).rejects.toThrow("Service 'web' is missing required field: dockerfile");
+    });
+
+    it("rejects an invalid port", async () => {
+      await expect(
+        parse({ services: { web: { dockerfile: "Dockerfile", port: 70000 } } })
+      ).rejects.toThrow("Service 'web' has invalid port: 70000");
+    });
+
+    it("rejects an unknown update strategy", async () => {
+      await expect(
+        parse({
+          services: { web: { dockerfile: "Dockerfile" } },
+          updateStrategy: "rolling",
+        })
+      ).rejects.toThrow("Invalid updateStrategy: rolling");
+    });
+
+    it("rejects a healthcheck with more than one probe", async () => {
+      await expect(
+        parse({
+          services: {
+            web: {
+              dockerfile: "Dockerfile",
+              healthcheck: { http: "/health", tcp: 3000 },
+            },
+          },
+        })
+      ).rejects.toThrow("must define exactly one of: http, tcp, command");
+    });
+
+    it("rejects an http healthcheck path without a leading slash", async () => {
+      await expect(
+        parse({
+          services: {
+            web: { dockerfile: "Dockerfile", healthcheck: { http: "health" } },
+          },
+        })
+      ).rejects.toThrow("healthcheck http path must start with '/'");
+    });
+
+    it("rejects a dependency on an unknown service", async () => {
+      await expect(
+        parse({
+          services: { web: { dockerfile: "Dockerfile", dependsOn: ["api"] } },
+        })
+      ).rejects.toThrow("Service 'web' depends on unknown service: api");
+    });
+
+    it("rejects a dependency cycle", async () => {
+      await expect(
+        parse({
+          services: {
+            web: { dockerfile: "Dockerfile", dependsOn: ["api"] },
+            api: { dockerfile: "Dockerfile", dependsOn: ["web"] },
+          },
+        })
+      ).rejects.toThrow("Service dependency cycle: web -> api -> web");
+    });
+
+    it("requires a five-field schedule for cron services", async () => {
+      await expect(
+        parse({
+          services: {
+            report: {
+              dockerfile: "Dockerfile",
+              kind: "cron",
+              schedule: "0 * * * * *",
+            },
+          },
+        })
+      ).rejects.toThrow("needs a schedule of five cron fields");
+    });
+
+    it("rejects an unknown database type", async () => {
+      await expect(
+        parse({
+          services: { web: { dockerfile: "Dockerfile" } },
+          database: { type: "oracle" },
+        })
+      ).rejects.toThrow("Invalid database type: oracle");
+    });
+
+    it("rejects an addon declared twice", async () => {
+      await expect(
+        parse({
+          services: { web: { dockerfile: "Dockerfile" } },
+          addons: ["redis", { type: "redis", version: "7" }],
+        })
+      ).rejects.toThrow("Addon 'redis' is declared more than once");
+    });
+  });
+});
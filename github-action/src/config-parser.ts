@@ -6,21 +6,73 @@ import * as path from "path";
 export interface PreviewConfig {
   services: Record<string, ServiceConfig>;
   database?: DatabaseConfig;
+  databases?: Record<string, DatabaseConfig>; // More databases by name
+  addons?: (AddonType | AddonConfig)[];
   env?: Record<string, string>;
   password?: string;
+  updateStrategy?: "recreate" | "blue-green";
 }
 
 export interface ServiceConfig {
   dockerfile: string;
+  kind?: "web" | "worker" | "cron";
+  schedule?: string; // Cron expression in UTC, cron services only
   port?: number;
   env?: Record<string, string>;
   context?: string;
   buildArgs?: Record<string, string>;
+  healthcheck?: HealthCheckConfig;
+  dependsOn?: (string | ServiceDependency)[];
+  resources?: ResourceLimits;
+  expose?: boolean;
+  volumes?: string[];
+  replicas?: number;
+}
+
+export interface ResourceLimits {
+  cpus?: number;
+  memory?: string;
+  pids?: number;
+}
+
+export interface ServiceDependency {
+  service: string;
+  condition?: "started" | "healthy";
+}
+
+export interface HealthCheckConfig {
+  http?: string;
+  tcp?: number;
+  command?: string;
+  interval?: number;
+  timeout?: number;
+}
+
+export type AddonType =
+  | "redis"
+  | "rabbitmq"
+  | "minio"
+  | "elasticsearch"
+  | "mailhog";
+
+export interface AddonConfig {
+  type: AddonType;
+  version?: string;
 }
 
 export interface DatabaseConfig {
-  type: "postgres" | "mysql" | "mongodb";
-  migrations?: string;
+  type: "postgres" | "mysql" | "mongodb" | "redis" | "sqlite";
+  mode?: "shared" | "dedicated";
+  version?: string;
+  cloneFrom?: string;
+  migrations?: string | MigrationsConfig;
+  seed?: string;
+}
+
+export interface MigrationsConfig {
+  path?: string;
+  command?: string;
+  service?: string;
 }
 
 /**
@@ -82,21 +134,416 @@ function validateConfig(config: PreviewConfig): void {
     if (service.port && (service.port < 1 || service.port > 65535)) {
       throw new Error(`Service '${name}' has invalid port: ${service.port}`);
     }
+
+    validateServiceKind(name, service);
+
+    if (service.healthcheck) {
+      validateHealthCheck(name, service.healthcheck);
+    }
+
+    if (service.expose !== undefined && typeof service.expose !== "boolean") {
+      throw new Error(`Service '${name}' expose must be true or false`);
+    }
+
+    if (
+      (service.expose === false || (service.kind || "web") !== "web") &&
+      (service.healthcheck?.http !== undefined ||
+        service.healthcheck?.tcp !== undefined)
+    ) {
+      throw new Error(
+        `Service '${name}' is not exposed and can only use a command healthcheck`
+      );
+    }
+
+    if (service.resources) {
+      validateResources(name, service.resources);
+    }
+
+    if (service.volumes !== undefined) {
+      validateVolumes(name, service.volumes);
+    }
+
+    // The plan's ceiling is checked by the backend
+    if (
+      service.replicas !== undefined &&
+      (!Number.isInteger(service.replicas) || service.replicas < 1)
+    ) {
+      throw new Error(`Service '${name}' replicas must be a positive integer`);
+    }
+  }
+
+  validateDependencies(config.services);
+
+  // Validate update strategy if present
+  if (config.updateStrategy) {
+    const validStrategies = ["recreate", "blue-green"];
+    if (!validStrategies.includes(config.updateStrategy)) {
+      throw new Error(
+        `Invalid updateStrategy: ${
+          config.updateStrategy
+        }. Must be one of: ${validStrategies.join(", ")}`
+      );
+    }
   }
 
   // Validate database config if present
   if (config.database) {
-    const validTypes = ["postgres", "mysql", "mongodb"];
-    if (!validTypes.includes(config.database.type)) {
+    validateDatabase(config.database, "database", config.services);
+  }
+
+  if (config.databases !== undefined) {
+    if (
+      !config.databases ||
+      typeof config.databases !== "object" ||
+      Array.isArray(config.databases)
+    ) {
+      throw new Error("databases must map database names to database configs");
+    }
+    for (const [name, database] of Object.entries(config.databases)) {
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        throw new Error(
+          `Invalid database name: ${name}. Names contain lowercase letters, digits and '_' and start with a letter`
+        );
+      }
+      validateDatabase(database, `databases.${name}`, config.services);
+    }
+  }
+
+  if (config.addons !== undefined) {
+    validateAddons(config.addons, config.services);
+  }
+}
+
+/**
+ * Validate the database or an entry of databases; label is where it is in
+ * preview.yaml, e.g. databases.events
+ */
+function validateDatabase(
+  database: DatabaseConfig,
+  label: string,
+  services: Record<string, ServiceConfig>
+): void {
+  if (!database || typeof database !== "object") {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const validTypes = ["postgres", "mysql", "mongodb", "redis", "sqlite"];
+  if (!validTypes.includes(database.type)) {
+    throw new Error(
+      `Invalid ${label} type: ${database.type}. Must be one of: ${validTypes.join(
+        ", "
+      )}`
+    );
+  }
+
+  const validModes = ["shared", "dedicated"];
+  if (database.mode !== undefined && !validModes.includes(database.mode)) {
+    throw new Error(
+      `Invalid ${label} mode: ${database.mode}. Must be one of: ${validModes.join(
+        ", "
+      )}`
+    );
+  }
+  if (
+    database.mode === "dedicated" &&
+    (database.type === "redis" || database.type === "sqlite")
+  ) {
+    throw new Error(
+      `${label}.mode: dedicated does not support ${database.type}`
+    );
+  }
+
+  if (database.version !== undefined) {
+    // YAML reads versions like 15 as numbers
+    database.version = String(database.version);
+    if (database.mode !== "dedicated") {
+      throw new Error(`${label}.version requires ${label}.mode: dedicated`);
+    }
+  }
+
+  if (
+    database.cloneFrom !== undefined &&
+    !/^[a-zA-Z0-9][a-zA-Z0-9._-]*$/.test(String(database.cloneFrom))
+  ) {
+    throw new Error(
+      `Invalid ${label}.cloneFrom: ${database.cloneFrom}. Snapshot names contain only letters, digits, '.', '_' and '-'`
+    );
+  }
+
+  const migrations = database.migrations;
+  if (migrations !== undefined && typeof migrations !== "string") {
+    if (!migrations || (!migrations.path && !migrations.command)) {
+      throw new Error(
+        `${label}.migrations must be a path, or an object with a path or a command`
+      );
+    }
+    if (migrations.service !== undefined) {
+      if (!migrations.command) {
+        throw new Error(
+          `${label}.migrations.service requires ${label}.migrations.command`
+        );
+      }
+      if (!services[migrations.service]) {
+        throw new Error(
+          `${label}.migrations.service references unknown service: ${migrations.service}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validate addons: known types, each declared once and not named like a
+ * service, since the addon's host name is its type
+ */
+function validateAddons(
+  addons: (AddonType | AddonConfig)[],
+  services: Record<string, ServiceConfig>
+): void {
+  if (!Array.isArray(addons)) {
+    throw new Error("addons must be a list");
+  }
+
+  const validTypes = ["redis", "rabbitmq", "minio", "elasticsearch", "mailhog"];
+  const seen = new Set<string>();
+
+  for (const addon of addons) {
+    const type = typeof addon === "string" ? addon : addon?.type;
+    if (!validTypes.includes(type)) {
+      throw new Error(
+        `Invalid addon type: ${type}. Must be one of: ${validTypes.join(", ")}`
+      );
+    }
+
+    if (
+      typeof addon === "object" &&
+      addon.version !== undefined &&
+      typeof addon.version !== "string"
+    ) {
+      throw new Error(`Addon '${type}' version must be a string`);
+    }
+
+    if (seen.has(type)) {
+      throw new Error(`Addon '${type}' is declared more than once`);
+    }
+    seen.add(type);
+
+    if (services[type]) {
+      throw new Error(`Addon '${type}' has the same name as a service`);
+    }
+  }
+}
+
+/**
+ * Validate a service healthcheck
+ */
+function validateHealthCheck(
+  serviceName: string,
+  healthcheck: HealthCheckConfig
+): void {
+  const probes = ["http", "tcp", "command"].filter(
+    (probe) => (healthcheck as any)[probe] !== undefined
+  );
+  if (probes.length !== 1) {
+    throw new Error(
+      `Service '${serviceName}' healthcheck must define exactly one of: http, tcp, command`
+    );
+  }
+
+  if (healthcheck.http !== undefined && !healthcheck.http.startsWith("/")) {
+    throw new Error(
+      `Service '${serviceName}' healthcheck http path must start with '/'`
+    );
+  }
+
+  if (
+    healthcheck.tcp !== undefined &&
+    (healthcheck.tcp < 1 || healthcheck.tcp > 65535)
+  ) {
+    throw new Error(
+      `Service '${serviceName}' healthcheck has invalid tcp port: ${healthcheck.tcp}`
+    );
+  }
+
+  for (const field of ["interval", "timeout"] as const) {
+    const value = healthcheck[field];
+    if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+      throw new Error(
+        `Service '${serviceName}' healthcheck ${field} must be a positive number of seconds`
+      );
+    }
+  }
+}
+
+/**
+ * Validate service resource limits. Plan ceilings are checked by the API.
+ */
+function validateResources(
+  serviceName: string,
+  resources: ResourceLimits
+): void {
+  if (
+    resources.cpus !== undefined &&
+    (typeof resources.cpus !== "number" || resources.cpus <= 0)
+  ) {
+    throw new Error(
+      `Service '${serviceName}' resources.cpus must be a positive number`
+    );
+  }
+
+  if (
+    resources.memory !== undefined &&
+    !/^\d+(\.\d+)?\s*[kmg]?b?$/i.test(String(resources.memory))
+  ) {
+    throw new Error(
+      `Service '${serviceName}' resources.memory must be a size such as 256m or 1g`
+    );
+  }
+
+  if (
+    resources.pids !== undefined &&
+    (!Number.isInteger(resources.pids) || resources.pids <= 0)
+  ) {
+    throw new Error(
+      `Service '${serviceName}' resources.pids must be a positive integer`
+    );
+  }
+}
+
+/**
+ * Validate a service's kind. Cron services need a schedule and run to
+ * completion, so the options of long-running services do not apply; the
+ * backend checks the schedule's fields.
+ */
+function validateServiceKind(
+  serviceName: string,
+  service: ServiceConfig
+): void {
+  const kind = service.kind || "web";
+  if (!["web", "worker", "cron"].includes(kind)) {
+    throw new Error(
+      `Service '${serviceName}' has invalid kind: ${kind}. Must be one of: web, worker, cron`
+    );
+  }
+
+  if (kind === "worker" && service.expose === true) {
+    throw new Error(
+      `Service '${serviceName}' is a worker and cannot be exposed`
+    );
+  }
+
+  if (kind !== "cron") {
+    if (service.schedule !== undefined) {
+      throw new Error(
+        `Service '${serviceName}' has a schedule but is not a cron service`
+      );
+    }
+    return;
+  }
+
+  if (
+    typeof service.schedule !== "string" ||
+    service.schedule.trim().split(/\s+/).length !== 5
+  ) {
+    throw new Error(
+      `Service '${serviceName}' needs a schedule of five cron fields, e.g. "*/5 * * * *"`
+    );
+  }
+  for (const option of [
+    "port",
+    "expose",
+    "healthcheck",
+    "replicas",
+    "dependsOn",
+  ] as const) {
+    if (service[option] !== undefined) {
       throw new Error(
-        `Invalid database type: ${
-          config.database.type
-        }. Must be one of: ${validTypes.join(", ")}`
+        `Service '${serviceName}' is a cron service and does not support ${option}`
       );
     }
   }
 }
 
+/**
+ * Validate service volumes, given as name:/absolute/path. The storage
+ * quota is checked by the API.
+ */
+function validateVolumes(serviceName: string, volumes: string[]): void {
+  if (!Array.isArray(volumes)) {
+    throw new Error(`Service '${serviceName}' volumes must be a list`);
+  }
+
+  const paths = new Set<string>();
+  for (const volume of volumes) {
+    const match = /^([a-z][a-z0-9_-]*):(\/[^:]*)$/.exec(String(volume));
+    if (!match) {
+      throw new Error(
+        `Service '${serviceName}' has an invalid volume: ${volume}. Use name:/absolute/path, with a name of lowercase letters, digits, '_' and '-' that starts with a letter`
+      );
+    }
+    if (paths.has(match[2])) {
+      throw new Error(
+        `Service '${serviceName}' mounts more than one volume at ${match[2]}`
+      );
+    }
+    paths.add(match[2]);
+  }
+}
+
+/**
+ * Validate service dependencies: every dependency must reference a defined
+ * service with a valid condition, and dependencies must not form a cycle
+ */
+function validateDependencies(services: Record<string, ServiceConfig>): void {
+  const validConditions = ["started", "healthy"];
+  const graph: Record<string, string[]> = {};
+
+  for (const [name, service] of Object.entries(services)) {
+    if (service.dependsOn !== undefined && !Array.isArray(service.dependsOn)) {
+      throw new Error(`Service '${name}' dependsOn must be a list`);
+    }
+
+    graph[name] = (service.dependsOn || []).map((dependency) => {
+      const dependencyName =
+        typeof dependency === "string" ? dependency : dependency?.service;
+      const condition =
+        typeof dependency === "string" ? undefined : dependency?.condition;
+
+      if (!dependencyName || !services[dependencyName]) {
+        throw new Error(
+          `Service '${name}' depends on unknown service: ${dependencyName}`
+        );
+      }
+      if (condition && !validConditions.includes(condition)) {
+        throw new Error(
+          `Service '${name}' has invalid dependency condition: ${condition}. Must be one of: ${validConditions.join(", ")}`
+        );
+      }
+      return dependencyName;
+    });
+  }
+
+  // Depth-first search for cycles
+  const state: Record<string, "visiting" | "done"> = {};
+  const visit = (name: string, path: string[]): void => {
+    if (state[name] === "done") return;
+    if (state[name] === "visiting") {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      throw new Error(`Service dependency cycle: ${cycle.join(" -> ")}`);
+    }
+
+    state[name] = "visiting";
+    for (const dependencyName of graph[name]) {
+      visit(dependencyName, [...path, name]);
+    }
+    state[name] = "done";
+  };
+
+  for (const name of Object.keys(graph)) {
+    visit(name, []);
+  }
+}
+
 /**
  * Resolve relative paths in service configurations
  */
@@ -116,14 +563,25 @@ function resolveServicePaths(
     }
   }
 
-  // Resolve migrations path if present
-  if (
-    config.database?.migrations &&
-    !path.isAbsolute(config.database.migrations)
-  ) {
-    config.database.migrations = path.join(
-      workingDirectory,
-      config.database.migrations
-    );
+  // Resolve migrations and seed paths if present
+  const databases = [
+    ...(config.database ? [config.database] : []),
+    ...Object.values(config.databases || {}),
+  ];
+  for (const database of databases) {
+    const migrations = database.migrations;
+    if (typeof migrations === "string" && !path.isAbsolute(migrations)) {
+      database.migrations = path.join(workingDirectory, migrations);
+    } else if (
+      typeof migrations === "object" &&
+      migrations.path &&
+      !path.isAbsolute(migrations.path)
+    ) {
+      migrations.path = path.join(workingDirectory, migrations.path);
+    }
+
+    if (database.seed && !path.isAbsolute(database.seed)) {
+      database.seed = path.join(workingDirectory, database.seed);
+    }
   }
 }
@@ -9,6 +9,7 @@ export interface DeploymentOptions {
   repoName: string;
   repoOwner: string;
   branch: string;
+  baseBranch?: string; // Branch the PR targets
   commitSha: string;
   config: PreviewConfig;
 }
@@ -32,6 +33,7 @@ export async function deployPreview(
     repoName,
     repoOwner,
     branch,
+    baseBranch,
     commitSha,
     config,
   } = options;
@@ -45,9 +47,12 @@ export async function deployPreview(
       repoName,
       repoOwner,
       branch,
+      baseBranch,
       commitSha,
       services: config.services,
       database: config.database,
+      databases: config.databases,
+      addons: config.addons,
       env: config.env,
       password: config.password,
     };
@@ -8,9 +8,12 @@ import { buildAndPushImages } from "./docker-builder";
 interface PreviewConfig {
   services: Record<string, any>;
   database?: any;
+  databases?: Record<string, any>;
+  addons?: any[];
   secrets?: string[];
   env?: Record<string, string>;
   password?: string;
+  updateStrategy?: "recreate" | "blue-green";
 }
 
 interface PreviewResponse {
@@ -19,6 +22,7 @@ interface PreviewResponse {
     previewId: string;
     urls: Record<string, string>;
     status: string;
+    jobId?: string; // Set when the deployment was queued without waiting
   };
   message?: string;
 }
@@ -177,6 +181,11 @@ async function run(): Promise<void> {
       repoName: context.repo.repo,
       repoOwner: context.repo.owner,
       branch: branchName,
+      // Branch the PR targets, whose schema the database schema diff uses
+      baseBranch:
+        previewType === "pull_request"
+          ? context.payload.pull_request?.base?.ref
+          : undefined,
       commitSha: context.sha,
       services: servicesWithImages, // Services with image tags
       database: config.database, // Extract database from config
@@ -189,6 +198,15 @@ async function run(): Promise<void> {
     if (config.password) {
       payload.password = config.password;
     }
+    if (config.updateStrategy) {
+      payload.updateStrategy = config.updateStrategy;
+    }
+    if (config.addons) {
+      payload.addons = config.addons;
+    }
+    if (config.databases) {
+      payload.databases = config.databases;
+    }
 
     // Debug: Log payload structure (without sensitive data)
     core.debug(`Payload structure: ${JSON.stringify({
@@ -233,6 +251,34 @@ async function run(): Promise<void> {
     core.setOutput("status", response.data.status);
     core.setOutput("deployment-time", deploymentTime.toString());
 
+    // Without waiting, the deployment has only been queued; there are no
+    // URLs to report yet
+    if (response.data.jobId) {
+      core.info(
+        `📥 Deployment job ${response.data.jobId} queued (status: ${response.data.status})`
+      );
+      core.info(`🔗 Preview ID: ${response.data.previewId}`);
+
+      if (
+        commentOnPR &&
+        octokit &&
+        previewType === "pull_request" &&
+        prNumber
+      ) {
+        await commentDeploymentQueued(
+          octokit,
+          context,
+          prNumber.toString(),
+          response.data.previewId,
+          response.data.jobId,
+          response.data.status
+        );
+      } else if (commentOnPR && previewType === "pull_request" && !octokit) {
+        core.warning("GITHUB_TOKEN not available. Skipping PR comment.");
+      }
+      return;
+    }
+
     core.info("✅ Preview environment deployed successfully!");
     core.info(`⏱️  Deployment time: ${deploymentTime}s`);
 
@@ -262,13 +308,17 @@ async function run(): Promise<void> {
       previewType === "pull_request" &&
       prNumber
     ) {
+      const schemaDiff = config.database
+        ? await fetchSchemaDiff(apiUrl, apiToken, previewIdentifier)
+        : null;
       await commentOnPullRequest(
         octokit,
         context,
         prNumber.toString(),
         response.data.urls,
         response.data.previewId,
-        deploymentTime
+        deploymentTime,
+        schemaDiff
       );
     } else if (commentOnPR && previewType === "pull_request" && !octokit) {
       core.warning("GITHUB_TOKEN not available. Skipping PR comment.");
@@ -318,18 +368,28 @@ async function deployPreview(
       throw new Error(errorMessage);
     }
 
-    // If wait is enabled, poll for completion
+    // The backend queues a deployment job; if wait is enabled, poll it for completion
+    const job = response.data.data;
     if (wait) {
-      const previewId = response.data.data.previewId;
       return await waitForDeploymentComplete(
         apiUrl,
         apiToken,
-        previewId,
+        job.jobId,
+        job.previewId,
         timeout
       );
     }
 
-    return response.data;
+    return {
+      success: true,
+      data: {
+        previewId: job.previewId,
+        urls: {},
+        status: job.status,
+        jobId: job.jobId,
+      },
+      message: response.data.message,
+    };
   } catch (error: any) {
     // Enhanced error handling with detailed logging
     if (error.response) {
@@ -386,31 +446,37 @@ async function deployPreview(
 async function waitForDeploymentComplete(
   apiUrl: string,
   apiToken: string,
+  jobId: string,
   previewId: string,
   timeout: number
 ): Promise<PreviewResponse> {
   const startTime = Date.now();
   const pollInterval = 5000; // 5 seconds
 
-  core.info("⏳ Waiting for deployment to complete...");
+  core.info(`⏳ Waiting for deployment job ${jobId} to complete...`);
 
   while (Date.now() - startTime < timeout * 1000) {
-    const response = await axios.get(
-      `${apiUrl}/api/previews/${previewId}/status`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-        },
-      }
-    );
+    const response = await axios.get(`${apiUrl}/api/jobs/${jobId}`, {
+      headers: {
+        Authorization: `Bearer ${apiToken}`,
+      },
+    });
 
-    const status = response.data.data.status;
-    core.info(`   Status: ${status}`);
+    const job = response.data.data;
+    core.info(`   Job status: ${job.status} (attempt ${job.attempts}/${job.maxAttempts})`);
 
-    if (status === "running") {
-      return response.data;
-    } else if (status === "failed") {
-      throw new Error("Deployment failed");
+    if (job.status === "succeeded") {
+      const statusResponse = await axios.get(
+        `${apiUrl}/api/previews/${previewId}/status`,
+        {
+          headers: {
+            Authorization: `Bearer ${apiToken}`,
+          },
+        }
+      );
+      return statusResponse.data;
+    } else if (job.status === "failed" || job.status === "cancelled") {
+      throw new Error(`Deployment ${job.status}: ${job.error || "unknown error"}`);
     }
 
     await new Promise((resolve) => setTimeout(resolve, pollInterval));
@@ -440,18 +506,52 @@ async function destroyPreview(
   });
 }
 
+/**
+ * Markdown summary of the preview's database schema changes against the
+ * base branch, or null when the backend cannot produce one
+ */
+async function fetchSchemaDiff(
+  apiUrl: string,
+  apiToken: string,
+  previewIdentifier: string
+): Promise<string | null> {
+  try {
+    const response = await axios.get(
+      `${apiUrl}/api/previews/${previewIdentifier}/database/schema-diff`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiToken}`,
+        },
+      }
+    );
+    return response.data.data.markdown;
+  } catch (error: any) {
+    core.info(
+      `Database schema diff not available: ${
+        error.response?.data?.error?.message || error.message
+      }`
+    );
+    return null;
+  }
+}
+
 async function commentOnPullRequest(
   octokit: ReturnType<typeof github.getOctokit>,
   context: typeof github.context,
   prNumber: string,
   urls: Record<string, string>,
   previewId: string,
-  deploymentTime: number
+  deploymentTime: number,
+  schemaDiff: string | null = null
 ): Promise<void> {
   const urlList = Object.entries(urls)
     .map(([service, url]) => `- **${service}**: ${url}`)
     .join("\n");
 
+  const schemaSection = schemaDiff
+    ? `\n### 🗄️ Database Schema:\n${schemaDiff}\n`
+    : "";
+
   const comment = `
 ## 🚀 PreviewCloud - Preview Environment Ready!
 
@@ -465,7 +565,7 @@ ${urlList}
 - **Preview ID**: \`${previewId}\`
 - **Build Time**: ${deploymentTime}s
 - **Commit**: \`${context.sha.substring(0, 7)}\`
-
+${schemaSection}
 ---
 
 💡 **This preview will:**
@@ -475,12 +575,50 @@ ${urlList}
 <sub>Powered by [PreviewCloud](https://previewcloud.cloud)</sub>
 `;
 
+  await postComment(octokit, context, prNumber, comment);
+}
+
+async function commentDeploymentQueued(
+  octokit: ReturnType<typeof github.getOctokit>,
+  context: typeof github.context,
+  prNumber: string,
+  previewId: string,
+  jobId: string,
+  status: string
+): Promise<void> {
+  const comment = `
+## 📥 PreviewCloud - Preview Deployment Queued
+
+**PR #${prNumber}** - \`${context.payload.pull_request?.head?.ref || "unknown"}\`
+
+The preview is being deployed in the background. Its URLs will be available once the deployment job succeeds.
+
+### 📊 Deployment Info:
+- **Status**: ⏳ ${status}
+- **Job ID**: \`${jobId}\`
+- **Preview ID**: \`${previewId}\`
+- **Commit**: \`${context.sha.substring(0, 7)}\`
+
+---
+
+<sub>Powered by [PreviewCloud](https://previewcloud.cloud)</sub>
+`;
+
+  await postComment(octokit, context, prNumber, comment);
+}
+
+async function postComment(
+  octokit: ReturnType<typeof github.getOctokit>,
+  context: typeof github.context,
+  prNumber: string,
+  body: string
+): Promise<void> {
   try {
     await octokit.rest.issues.createComment({
       owner: context.repo.owner,
       repo: context.repo.repo,
       issue_number: parseInt(prNumber),
-      body: comment,
+      body,
     });
     core.info("💬 Comment posted on PR");
   } catch (error: any) {
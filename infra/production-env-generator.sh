@@ -23,6 +23,7 @@ MONGODB_PREVIEW_PASSWORD=$(generate_password)
 REDIS_PASSWORD=$(generate_password)
 JWT_SECRET=$(openssl rand -base64 32)
 API_TOKEN_SECRET=$(openssl rand -base64 32)
+ENCRYPTION_KEY=$(openssl rand -base64 32)
 GITHUB_WEBHOOK_SECRET=$(openssl rand -hex 32)
 
 echo "✅ Generated secure passwords and secrets"
@@ -33,6 +34,10 @@ cat > .env << EOF
 # PreviewCloud Production Infrastructure
 # Generated on: $(date)
 
+# Domains routed to the backend: the API, and the previews under BASE_DOMAIN
+BASE_DOMAIN=preview.previewcloud.cloud
+API_DOMAIN=api.previewcloud.cloud
+
 # MongoDB (Platform)
 MONGODB_ROOT_PASSWORD=$MONGODB_ROOT_PASSWORD
 
@@ -133,6 +138,7 @@ TRAEFIK_DASHBOARD_PORT=8080
 
 JWT_SECRET=$JWT_SECRET
 API_TOKEN_SECRET=$API_TOKEN_SECRET
+ENCRYPTION_KEY=$ENCRYPTION_KEY
 
 # ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 # GitHub Integration